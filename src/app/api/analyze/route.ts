@@ -2,6 +2,8 @@
  * POST /api/analyze/
  * Run full analysis on uploaded file
  * Only accessible after payment is confirmed
+ * Optional body: { profile: AnalysisProfile } to toggle checks, thresholds and severities,
+ * override the detected header row per sheet, or pick columns for duplicate row detection
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,6 +15,12 @@ import { ERRORS } from '@/lib/errors';
 import { analyzeWorkbook } from '@/lib/analyzer';
 import { storeAnalysisResult, getAnalysisResult, getFile } from '@/lib/storage';
 import { downloadFromR2, isR2Configured } from '@/lib/r2-storage';
+import { validateProfile, resolveProfile } from '@/lib/profile';
+import type { AnalysisProfile } from '@/lib/types';
+
+interface AnalyzeRequestBody {
+  profile?: AnalysisProfile;
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -41,9 +49,29 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(json, { status });
     }
 
-    // Check if already analyzed
+    // Get analysis profile from request body (optional)
+    let profile: AnalysisProfile | undefined;
+    try {
+      const body: AnalyzeRequestBody = await request.json();
+      profile = body.profile;
+    } catch {
+      // No body or invalid JSON, use default profile
+    }
+
+    if (profile !== undefined) {
+      const profileError = validateProfile(profile);
+      if (profileError) {
+        const { json, status } = ERRORS.INVALID_PROFILE(profileError);
+        return NextResponse.json(json, { status });
+      }
+    }
+
+    // Check if already analyzed with the same profile
     const existingResult = getAnalysisResult(session.fileId);
-    if (existingResult) {
+    if (
+      existingResult &&
+      JSON.stringify(existingResult.profile) === JSON.stringify(resolveProfile(profile))
+    ) {
       return NextResponse.json({
         ok: true,
         result: existingResult,
@@ -83,7 +111,8 @@ export async function POST(request: NextRequest) {
       buffer,
       session.fileId,
       session.fileName,
-      session.selectedKeyColumn
+      session.selectedKeyColumns,
+      profile
     );
 
     // Store result
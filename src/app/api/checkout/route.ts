@@ -12,13 +12,61 @@ import { fileExists, getFile } from '@/lib/storage';
 import { downloadFromR2, isR2Configured } from '@/lib/r2-storage';
 import { ERRORS } from '@/lib/errors';
 import { createCheckoutSession } from '@/lib/stripe';
+import { MAX_KEY_COLUMNS, MAX_KEY_LABEL_LENGTH, MAX_KEY_SELECTIONS } from '@/lib/limits';
+import type { KeyColumnSelection } from '@/lib/types';
 
 interface CheckoutRequestBody {
-  selectedKeyColumn?: {
-    sheet: string;
-    column: string;
-    columnIndex: number;
-  };
+  // One key per sheet: a single column, or a composite key listed in `columns`
+  selectedKeyColumns?: KeyColumnSelection[];
+  // Single selection from older clients
+  selectedKeyColumn?: KeyColumnSelection;
+}
+
+function isKeyColumn(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const { column, columnIndex } = value as Record<string, unknown>;
+  return typeof column === 'string' && typeof columnIndex === 'number' && Number.isInteger(columnIndex) && columnIndex >= 0;
+}
+
+/**
+ * Validate one key column selection from the request body
+ * Returns an error message, or null if the selection is valid
+ */
+function validateKeySelection(selection: unknown): string | null {
+  if (!isKeyColumn(selection) || typeof (selection as Record<string, unknown>).sheet !== 'string') {
+    return 'sheet, column and columnIndex are required';
+  }
+  const { sheet, column, columnIndex, columns } = selection as KeyColumnSelection;
+  if (columns !== undefined && (!Array.isArray(columns) || columns.length === 0 || !columns.every(isKeyColumn))) {
+    return 'columns must be a list of { column, columnIndex }';
+  }
+  const names = [sheet, column, ...(columns || []).map(c => c.column)];
+  if (names.some(name => name.length > MAX_KEY_LABEL_LENGTH)) {
+    return `sheet and column names can be at most ${MAX_KEY_LABEL_LENGTH} characters`;
+  }
+  if (columns === undefined) return null;
+  if (columns.length > MAX_KEY_COLUMNS) return `a composite key can combine at most ${MAX_KEY_COLUMNS} columns`;
+  if (new Set(columns.map(c => c.columnIndex)).size !== columns.length) return 'columns must not repeat';
+  // column/columnIndex describe the first key column
+  if (columns[0].columnIndex !== columnIndex || columns[0].column !== column) {
+    return 'column and columnIndex must match the first entry of columns';
+  }
+  return null;
+}
+
+/**
+ * Validate the list of key selections: each valid, at most one per sheet
+ */
+function validateKeySelections(selections: unknown): string | null {
+  if (!Array.isArray(selections)) return 'selectedKeyColumns must be a list';
+  if (selections.length > MAX_KEY_SELECTIONS) return `at most ${MAX_KEY_SELECTIONS} key columns can be selected`;
+  for (const selection of selections) {
+    const error = validateKeySelection(selection);
+    if (error) return error;
+  }
+  const sheets = selections.map(s => s.sheet);
+  const repeated = sheets.find((sheet, i) => sheets.indexOf(sheet) !== i);
+  return repeated !== undefined ? `only one key can be selected per sheet ("${repeated}" has several)` : null;
 }
 
 export async function POST(request: NextRequest) {
@@ -67,24 +115,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(json, { status });
     }
 
-    // Get selected key column from request body (optional)
-    let selectedKeyColumn = session.selectedKeyColumn;
+    // Get selected key columns from request body (optional)
+    let selectedKeyColumns = session.selectedKeyColumns;
+    let body: CheckoutRequestBody = {};
     try {
-      const body: CheckoutRequestBody = await request.json();
-      if (body.selectedKeyColumn) {
-        selectedKeyColumn = body.selectedKeyColumn;
-      }
+      body = (await request.json()) ?? {};
     } catch {
       // Body parsing failed, use existing selection
     }
+    const requested = body.selectedKeyColumns ?? (body.selectedKeyColumn ? [body.selectedKeyColumn] : undefined);
+    if (requested) {
+      const selectionError = validateKeySelections(requested);
+      if (selectionError) {
+        const { json, status } = ERRORS.INVALID_KEY_COLUMN(selectionError);
+        return NextResponse.json(json, { status });
+      }
+      selectedKeyColumns = requested;
+    }
 
-    // Update session with key column selection
-    if (selectedKeyColumn !== session.selectedKeyColumn) {
+    // Update session with key column selections
+    if (selectedKeyColumns !== session.selectedKeyColumns) {
       const newToken = await createSession({
         fileId: session.fileId,
         fileName: session.fileName,
         paid: session.paid,
-        selectedKeyColumn,
+        selectedKeyColumns,
       });
       await setSessionCookie(newToken);
     }
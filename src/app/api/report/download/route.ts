@@ -77,7 +77,7 @@ export async function GET(request: NextRequest) {
         buffer,
         session.fileId,
         session.fileName,
-        session.selectedKeyColumn
+        session.selectedKeyColumns
       );
     }
 
@@ -1,7 +1,7 @@
 /**
  * POST /api/upload/
  * Handle spreadsheet file upload
- * Validates file type and size, stores temporarily, returns preview
+ * Validates file type (by content), size and archive safety once, stores temporarily, returns preview
  * NO HEAVY PROCESSING - only minimal validation and preview
  */
 
@@ -15,6 +15,7 @@ import { uploadToR2, isR2Configured } from '@/lib/r2-storage';
 import { MAX_FILE_BYTES, ALLOWED_EXTENSIONS, ALLOWED_MIME_TYPES } from '@/lib/limits';
 import { ERRORS } from '@/lib/errors';
 import { generatePreview } from '@/lib/analyzer';
+import { inspectFile } from '@/lib/file-inspection';
 import { createSession, setSessionCookie, getSessionFromCookie } from '@/lib/session';
 
 export async function POST(request: NextRequest) {
@@ -64,6 +65,14 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
+    // Validate content: magic bytes, encryption and decompressed size
+    const inspection = inspectFile(buffer);
+    if (!inspection.ok) {
+      console.warn(`[Upload] Rejected ${file.name}: ${inspection.reason}`);
+      const { json, status } = ERRORS[inspection.code]();
+      return NextResponse.json(json, { status });
+    }
+
     // Check if user has an existing paid session (for re-upload after payment)
     const existingSession = await getSessionFromCookie();
     const isPaidReupload = existingSession?.paid === true;
@@ -95,7 +104,7 @@ export async function POST(request: NextRequest) {
     // Generate preview analysis (minimal - no heavy processing)
     let preview;
     try {
-      preview = generatePreview(buffer, fileId, file.name, file.size);
+      preview = generatePreview(buffer, fileId, file.name, file.size, inspection);
     } catch (parseError) {
       const { json, status } = ERRORS.PARSE_ERROR();
       return NextResponse.json(json, { status });
@@ -106,7 +115,7 @@ export async function POST(request: NextRequest) {
       fileId,
       fileName: file.name,
       paid: isPaidReupload, // Preserve paid status if user already paid
-      selectedKeyColumn: existingSession?.selectedKeyColumn, // Preserve key column selection
+      selectedKeyColumns: existingSession?.selectedKeyColumns, // Preserve key column selections
     });
 
     // Set session cookie
@@ -3,14 +3,19 @@
 import { useState, useCallback, useRef } from 'react';
 import type { AnalysisPreview, ColumnCandidate } from '@/lib/types';
 import { storeFileInBrowser, isClientStorageAvailable } from '@/lib/client-storage';
+import { MAX_KEY_LABEL_LENGTH, MAX_KEY_SELECTIONS } from '@/lib/limits';
 
 type UploadState = 'idle' | 'uploading' | 'preview' | 'processing' | 'error';
 
+// Key candidates at least this confident are selected automatically
+const AUTO_SELECT_CONFIDENCE = 0.8;
+
 export default function HomePage() {
   const [state, setState] = useState<UploadState>('idle');
   const [error, setError] = useState<string | null>(null);
   const [preview, setPreview] = useState<AnalysisPreview | null>(null);
-  const [selectedKeyColumn, setSelectedKeyColumn] = useState<ColumnCandidate | null>(null);
+  // Sheet name -> selected key column
+  const [selectedKeyColumns, setSelectedKeyColumns] = useState<Record<string, ColumnCandidate>>({});
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -19,8 +24,8 @@ export default function HomePage() {
     setState('uploading');
 
     // Validate file type
-    if (!file.name.match(/\.(xlsx|xls)$/i)) {
-      setError('Please upload an Excel file (.xlsx or .xls)');
+    if (!file.name.match(/\.(xlsx|xls|xlsb|ods|csv|tsv|txt)$/i)) {
+      setError('Please upload a spreadsheet (.xlsx, .xls, .xlsb, .ods, .csv, .tsv or .txt)');
       setState('error');
       return;
     }
@@ -63,10 +68,20 @@ export default function HomePage() {
 
       setPreview(data.preview);
       
-      // Auto-select first key column if available
-      if (data.preview.potentialKeyColumns?.length > 0) {
-        setSelectedKeyColumn(data.preview.potentialKeyColumns[0]);
+      // Auto-select the best key column of each sheet when it is a confident match
+      const autoSelected: Record<string, ColumnCandidate> = {};
+      for (const candidate of (data.preview.potentialKeyColumns || []) as ColumnCandidate[]) {
+        const current = autoSelected[candidate.sheet];
+        if (candidate.confidence >= AUTO_SELECT_CONFIDENCE && (!current || candidate.confidence > current.confidence)) {
+          autoSelected[candidate.sheet] = candidate;
+        }
       }
+      // Keep the most confident sheets when more are matched than can be selected
+      const kept = Object.values(autoSelected)
+        .filter(candidate => candidate.sheet.length <= MAX_KEY_LABEL_LENGTH)
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_KEY_SELECTIONS);
+      setSelectedKeyColumns(Object.fromEntries(kept.map(candidate => [candidate.sheet, candidate])));
       
       setState('preview');
     } catch (err) {
@@ -111,11 +126,14 @@ export default function HomePage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          selectedKeyColumn: selectedKeyColumn ? {
-            sheet: selectedKeyColumn.sheet,
-            column: selectedKeyColumn.column,
-            columnIndex: selectedKeyColumn.columnIndex,
-          } : undefined,
+          // Labels only name the key in findings, so long ones are shortened to fit the session
+          selectedKeyColumns: Object.values(selectedKeyColumns).map(candidate => ({
+            sheet: candidate.sheet,
+            // A composite candidate's column is "a + b"; the selection names its first column
+            column: (candidate.columns ? candidate.columns[0].column : candidate.column).slice(0, MAX_KEY_LABEL_LENGTH),
+            columnIndex: candidate.columnIndex,
+            columns: candidate.columns?.map(c => ({ column: c.column.slice(0, MAX_KEY_LABEL_LENGTH), columnIndex: c.columnIndex })),
+          })),
         }),
       });
 
@@ -131,13 +149,13 @@ export default function HomePage() {
       setError(err instanceof Error ? err.message : 'Failed to proceed to checkout');
       setState('preview');
     }
-  }, [selectedKeyColumn]);
+  }, [selectedKeyColumns]);
 
   const resetUpload = useCallback(() => {
     setState('idle');
     setError(null);
     setPreview(null);
-    setSelectedKeyColumn(null);
+    setSelectedKeyColumns({});
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -231,7 +249,7 @@ export default function HomePage() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.xlsb,.ods,.csv,.tsv,.txt"
               onChange={handleFileSelect}
               className="hidden"
             />
@@ -249,10 +267,10 @@ export default function HomePage() {
                   </svg>
                 </div>
                 <p className="text-lg font-medium text-foreground mb-1">
-                  Drop your Excel file here
+                  Drop your spreadsheet here
                 </p>
                 <p className="text-sm text-foreground/50">
-                  or click to browse • .xlsx, .xls up to 10MB
+                  or click to browse • .xlsx, .xls, .xlsb, .ods, .csv, .tsv up to 10MB
                 </p>
               </>
             )}
@@ -308,6 +326,7 @@ export default function HomePage() {
                     </div>
                     <span className="text-sm text-foreground/50">
                       {sheet.columnCount} cols • {sheet.rowCount - 1} rows
+                      {sheet.tables.length > 0 && ` • ${sheet.tables.length} tables`}
                     </span>
                   </div>
                 ))}
@@ -318,37 +337,47 @@ export default function HomePage() {
             {preview.potentialKeyColumns.length > 0 && (
               <div className="mb-6">
                 <h3 className="text-sm font-medium text-foreground/70 mb-3 uppercase tracking-wide">
-                  Duplicate Check Column (Optional)
+                  Duplicate Check Columns (Optional)
                 </h3>
                 <p className="text-sm text-foreground/50 mb-3">
-                  Select a column to check for duplicate values:
+                  For up to {MAX_KEY_SELECTIONS} sheets, select a column, or a combination of columns, that should be unique:
                 </p>
-                <div className="flex flex-wrap gap-2">
-                  <button
-                    onClick={() => setSelectedKeyColumn(null)}
-                    className={`px-3 py-1.5 rounded-lg text-sm transition-all ${
-                      !selectedKeyColumn
-                        ? 'bg-primary text-black font-medium'
-                        : 'bg-surface-light text-foreground/70 hover:bg-border'
-                    }`}
-                  >
-                    Skip
-                  </button>
-                  {preview.potentialKeyColumns.map(col => (
-                    <button
-                      key={`${col.sheet}-${col.column}`}
-                      onClick={() => setSelectedKeyColumn(col)}
-                      className={`px-3 py-1.5 rounded-lg text-sm transition-all ${
-                        selectedKeyColumn?.column === col.column && selectedKeyColumn?.sheet === col.sheet
-                          ? 'bg-primary text-black font-medium'
-                          : 'bg-surface-light text-foreground/70 hover:bg-border'
-                      }`}
-                    >
-                      {col.column}
-                      <span className="text-xs opacity-60 ml-1">({col.sheet})</span>
-                    </button>
-                  ))}
-                </div>
+                {Array.from(new Set(preview.potentialKeyColumns.map(col => col.sheet))).map(sheet => (
+                  <div key={sheet} className="mb-3">
+                    <p className="text-xs text-foreground/50 mb-1.5">{sheet}</p>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => setSelectedKeyColumns(current => {
+                          const { [sheet]: _removed, ...rest } = current;
+                          return rest;
+                        })}
+                        className={`px-3 py-1.5 rounded-lg text-sm transition-all ${
+                          !selectedKeyColumns[sheet]
+                            ? 'bg-primary text-black font-medium'
+                            : 'bg-surface-light text-foreground/70 hover:bg-border'
+                        }`}
+                      >
+                        Skip
+                      </button>
+                      {preview.potentialKeyColumns.filter(col => col.sheet === sheet).map(col => (
+                        <button
+                          key={`${col.sheet}-${col.column}`}
+                          onClick={() => setSelectedKeyColumns(current => ({ ...current, [sheet]: col }))}
+                          disabled={sheet.length > MAX_KEY_LABEL_LENGTH ||
+                            (!selectedKeyColumns[sheet] && Object.keys(selectedKeyColumns).length >= MAX_KEY_SELECTIONS)}
+                          className={`px-3 py-1.5 rounded-lg text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                            selectedKeyColumns[sheet]?.column === col.column
+                              ? 'bg-primary text-black font-medium'
+                              : 'bg-surface-light text-foreground/70 hover:bg-border'
+                          }`}
+                        >
+                          {col.column}
+                          <span className="text-xs opacity-60 ml-1">({Math.round(col.confidence * 100)}%)</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
               </div>
             )}
 
@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
-import type { AnalysisResult, Finding } from '@/lib/types';
+import type { AnalysisResult, ColumnProfile, Finding } from '@/lib/types';
 import { getFileFromBrowser, isClientStorageAvailable } from '@/lib/client-storage';
 
 type ReportState = 'loading' | 'analyzing' | 'ready' | 'error';
@@ -66,6 +66,22 @@ function SeverityBadge({ severity }: { severity: string }) {
   );
 }
 
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Value range of a column: numeric min/max with mean and median, date span, or text length
+ */
+function describeColumnRange(profile: ColumnProfile): string {
+  if (profile.numeric && profile.inferredType !== 'date') {
+    const { min, max, mean, median } = profile.numeric;
+    return `${formatNumber(min)} – ${formatNumber(max)} (mean ${formatNumber(mean)}, median ${formatNumber(median)})`;
+  }
+  if (profile.dates) return `${profile.dates.min} – ${profile.dates.max}`;
+  return profile.maxLength > 0 ? `up to ${profile.maxLength} characters` : '—';
+}
+
 export default function ReportPage() {
   const router = useRouter();
   const [state, setState] = useState<ReportState>('loading');
@@ -73,6 +89,7 @@ export default function ReportPage() {
   const [error, setError] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
   const [filter, setFilter] = useState<'all' | 'error' | 'warning' | 'info'>('all');
+  const [dictionarySheet, setDictionarySheet] = useState<string | null>(null);
 
   const loadReport = useCallback(async () => {
     try {
@@ -161,6 +178,11 @@ export default function ReportPage() {
     filter === 'all' || f.severity === filter
   ) || [];
 
+  // Results stored before column profiling have no data dictionary
+  const columnProfiles = result?.columnProfiles || [];
+  const profiledSheets = Array.from(new Set(columnProfiles.map(p => p.sheet)));
+  const activeDictionarySheet = dictionarySheet ?? profiledSheets[0];
+
   if (state === 'loading' || state === 'analyzing') {
     return (
       <div className="max-w-4xl mx-auto px-4 py-24 text-center">
@@ -224,7 +246,9 @@ export default function ReportPage() {
             Sanity Report
           </h1>
           <p className="text-foreground/60 text-sm">
-            {result.fileName} • Analyzed {new Date(result.analyzedAt).toLocaleString()}
+            {result.fileName}
+            {result.fileFormat && ` (${result.fileFormat.toUpperCase()})`}
+            {' '}• Analyzed {new Date(result.analyzedAt).toLocaleString()}
           </p>
         </div>
         <button
@@ -319,6 +343,36 @@ export default function ReportPage() {
           Score Breakdown
         </h3>
         <p className="text-foreground/80">{result.scoreExplanation}</p>
+        {result.scoreBreakdown && (
+          <div className="grid sm:grid-cols-2 gap-6 mt-4">
+            <div>
+              <h4 className="text-xs font-medium text-foreground/50 uppercase tracking-wide mb-2">
+                By Sheet
+              </h4>
+              <div className="space-y-1">
+                {result.scoreBreakdown.bySheet.map(s => (
+                  <div key={s.sheet} className="flex items-center justify-between text-sm">
+                    <span className="text-foreground truncate flex-1 mr-2">{s.sheet}</span>
+                    <span className="font-mono text-foreground/70">{s.score}/100</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-xs font-medium text-foreground/50 uppercase tracking-wide mb-2">
+                By Category
+              </h4>
+              <div className="space-y-1">
+                {result.scoreBreakdown.byCategory.map(c => (
+                  <div key={c.category} className="flex items-center justify-between text-sm">
+                    <span className="text-foreground truncate flex-1 mr-2">{c.category}</span>
+                    <span className="font-mono text-foreground/70">-{c.penalty}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Findings Table */}
@@ -395,11 +449,21 @@ export default function ReportPage() {
                     </td>
                     <td className="px-6 py-4 text-sm text-foreground/80 max-w-md">
                       {finding.description}
+                      {finding.region && (
+                        <span className="block text-xs text-foreground/50 mt-1">
+                          Table: {finding.region}
+                        </span>
+                      )}
                       {finding.cellRef && (
                         <span className="block text-xs text-foreground/50 mt-1">
                           Cells: {finding.cellRef}
                         </span>
                       )}
+                      {finding.dependentRefs && (
+                        <span className="block text-xs text-foreground/50 mt-1">
+                          Affected: {finding.dependentRefs}
+                        </span>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -428,6 +492,73 @@ export default function ReportPage() {
         </div>
       )}
 
+      {/* Data Dictionary */}
+      {columnProfiles.length > 0 && (
+        <div className="card mt-8 animate-fade-in animation-delay-500">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
+            <h3 className="text-lg font-semibold text-foreground">
+              Data Dictionary
+            </h3>
+
+            {/* Sheet Buttons */}
+            {profiledSheets.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {profiledSheets.map(sheet => (
+                  <button
+                    key={sheet}
+                    onClick={() => setDictionarySheet(sheet)}
+                    className={`px-3 py-1 rounded-lg text-sm transition-all ${
+                      activeDictionarySheet === sheet
+                        ? 'bg-primary text-black font-medium'
+                        : 'bg-surface-light text-foreground/70 hover:bg-border'
+                    }`}
+                  >
+                    {sheet}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-x-auto -mx-6">
+            <table className="w-full min-w-[700px]">
+              <thead>
+                <tr className="border-b border-border text-left">
+                  <th className="px-6 py-3 text-xs font-medium text-foreground/50 uppercase tracking-wide">Column</th>
+                  <th className="px-6 py-3 text-xs font-medium text-foreground/50 uppercase tracking-wide">Type</th>
+                  <th className="px-6 py-3 text-xs font-medium text-foreground/50 uppercase tracking-wide">Blank</th>
+                  <th className="px-6 py-3 text-xs font-medium text-foreground/50 uppercase tracking-wide">Distinct</th>
+                  <th className="px-6 py-3 text-xs font-medium text-foreground/50 uppercase tracking-wide">Range</th>
+                  <th className="px-6 py-3 text-xs font-medium text-foreground/50 uppercase tracking-wide">Top Values</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {columnProfiles.filter(p => p.sheet === activeDictionarySheet).map(profile => (
+                  <tr key={`${profile.region || ''}:${profile.columnLetter}`} className="hover:bg-surface-light/50 transition-colors">
+                    <td className="px-6 py-3 text-sm text-foreground">
+                      {profile.column}
+                      <span className="text-foreground/50 ml-1">[{profile.columnLetter}]</span>
+                      {profile.region && (
+                        <span className="block text-xs text-foreground/50 mt-1">
+                          Table: {profile.region}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-foreground/70">{profile.inferredType}</td>
+                    <td className="px-6 py-3 text-sm font-mono text-foreground/70">{profile.nullCount}</td>
+                    <td className="px-6 py-3 text-sm font-mono text-foreground/70">{profile.distinctCount}</td>
+                    <td className="px-6 py-3 text-sm text-foreground/70">{describeColumnRange(profile)}</td>
+                    <td className="px-6 py-3 text-xs text-foreground/60 max-w-xs">
+                      {profile.topValues.map(v => `${v.value} (${v.count})`).join(', ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Footer CTA */}
       <div className="mt-12 text-center animate-fade-in animation-delay-500">
         <p className="text-foreground/50 mb-4">Need to analyze another file?</p>
@@ -1,6 +1,6 @@
 /**
  * Spreadsheet Analysis Engine
- * Performs deterministic checks on Excel workbooks
+ * Performs deterministic checks on Excel workbooks and CSV files
  */
 
 import * as XLSX from 'xlsx';
@@ -11,76 +11,144 @@ import type {
   ColumnCandidate,
   AnalysisPreview,
   AnalysisResult,
-  Severity,
+  AnalysisProfile,
+  ResolvedAnalysisProfile,
+  ColumnProfile,
 } from './types';
 import { MAX_SHEETS, MAX_ROWS_PER_SHEET, MAX_COLS_PER_SHEET } from './limits';
+import {
+  CHECK_REGISTRY,
+  getPreviewCheckTitles,
+  type KeyColumnSelection,
+  type SpreadsheetSource,
+} from './checks';
+import { inspectFile, type FileInspection } from './file-inspection';
+import { parseCsv, csvToWorkbook } from './csv';
+import { resolveProfile, applySeverityOverrides } from './profile';
+import { calculateScore } from './scoring';
+import { buildDependencyGraph, type DependencyGraph } from './dependency-graph';
+import { detectHeader, type HeaderDetection } from './header-detection';
+import { detectTableRegions, getRegionHeader, readExcelTables, type TableRegion } from './table-regions';
+import { findPotentialKeyColumns } from './key-candidates';
+import { profileColumns } from './column-profiles';
 
-// Excel error values to detect
-const EXCEL_ERRORS = ['#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#N/A', '#NULL!', '#NUM!', '#GETTING_DATA'];
+/**
+ * Parse workbook from buffer
+ * Package parts are kept (bookFiles) for checks that read links and connections;
+ * cellStyles is needed for row/column visibility
+ */
+export function parseWorkbook(buffer: Buffer): XLSX.WorkBook {
+  return XLSX.read(buffer, { type: 'buffer', cellFormula: true, cellNF: true, cellStyles: true, bookFiles: true });
+}
+
+/**
+ * Load any supported spreadsheet file (Excel, OpenDocument or delimited text)
+ */
+function loadSpreadsheet(
+  buffer: Buffer,
+  fileName: string,
+  uploadInspection?: FileInspection
+): { workbook: XLSX.WorkBook; source: SpreadsheetSource } {
+  // Identify by content. Archive sizes were verified when the file was uploaded,
+  // so stored files are not inflated again before SheetJS reads them
+  const inspection = uploadInspection || inspectFile(buffer, { verifyArchive: false });
+  if (!inspection.ok) {
+    throw new Error(`Cannot load ${fileName}: ${inspection.reason}`);
+  }
+  const { format } = inspection;
 
-// Patterns for identifying likely ID/key columns
-const KEY_COLUMN_PATTERNS = /^(id|ID|Id|_id|sku|SKU|order|Order|email|Email|order_id|orderId|user_id|userId|product_id|productId)$/i;
+  if (format === 'csv') {
+    const csv = parseCsv(buffer, fileName);
+    return { workbook: csvToWorkbook(csv, fileName), source: { format, csv } };
+  }
 
-// Date-like patterns
-const DATE_PATTERNS = [
-  /^\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{2,4}$/,
-  /^\d{4}[\/\-\.]\d{1,2}[\/\-\.]\d{1,2}$/,
-  /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i,
-];
+  return { workbook: parseWorkbook(buffer), source: { format } };
+}
 
 /**
- * Get column letter from index (0 = A, 1 = B, etc.)
+ * Detect the header row of every sheet, applying caller overrides (1-based rows)
  */
-function getColumnLetter(index: number): string {
-  let letter = '';
-  let temp = index;
-  while (temp >= 0) {
-    letter = String.fromCharCode((temp % 26) + 65) + letter;
-    temp = Math.floor(temp / 26) - 1;
+function detectSheetHeaders(
+  workbook: XLSX.WorkBook,
+  headerRows: Record<string, number> = {}
+): Map<string, HeaderDetection> {
+  const headers = new Map<string, HeaderDetection>();
+  for (const sheetName of workbook.SheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+    const override = headerRows[sheetName];
+    headers.set(sheetName, detectHeader(worksheet, range, override !== undefined ? override - 1 : undefined));
   }
-  return letter;
+  return headers;
 }
 
 /**
- * Parse workbook from buffer
+ * Find the tables on every sheet (empty list for single-table sheets)
  */
-export function parseWorkbook(buffer: Buffer): XLSX.WorkBook {
-  return XLSX.read(buffer, { type: 'buffer', cellFormula: true, cellNF: true });
+function detectSheetRegions(workbook: XLSX.WorkBook): Map<string, TableRegion[]> {
+  const excelTables = readExcelTables(workbook);
+  const regions = new Map<string, TableRegion[]>();
+  for (const sheetName of workbook.SheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+    const limitedRange = {
+      s: range.s,
+      e: {
+        r: Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET - 1),
+        c: Math.min(range.e.c, range.s.c + MAX_COLS_PER_SHEET - 1),
+      },
+    };
+    regions.set(sheetName, detectTableRegions(worksheet, limitedRange, excelTables.get(sheetName)));
+  }
+  return regions;
 }
 
 /**
  * Get sheet information
  */
-function getSheetInfo(workbook: XLSX.WorkBook): SheetInfo[] {
+function getSheetInfo(
+  workbook: XLSX.WorkBook,
+  headers: Map<string, HeaderDetection>,
+  regions: Map<string, TableRegion[]>
+): SheetInfo[] {
   const sheets: SheetInfo[] = [];
 
   for (const sheetName of workbook.SheetNames) {
     const worksheet = workbook.Sheets[sheetName];
     const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+    const header = headers.get(sheetName)!;
     
     // Check if sheet is hidden
     const sheetProps = workbook.Workbook?.Sheets?.find(s => s.name === sheetName);
     const isHidden = sheetProps?.Hidden === 1 || sheetProps?.Hidden === 2;
 
-    // Get headers from first row
-    const headers: string[] = [];
-    for (let col = range.s.c; col <= range.e.c; col++) {
-      const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
-      const cell = worksheet[cellAddress];
-      headers.push(cell ? String(cell.v || '') : '');
-    }
-
     const rowCount = range.e.r - range.s.r + 1;
     const columnCount = range.e.c - range.s.c + 1;
-    const hasData = rowCount > 1;
+    const hasData = range.e.r > header.lastRow;
+    const mergedRangeCount = worksheet['!merges']?.length || 0;
+    const sheetRegions = regions.get(sheetName)!;
+    const tableSizes: SheetInfo['tableSizes'] = {};
+    for (const region of sheetRegions) {
+      const regionHeader = getRegionHeader(worksheet, region, header.source === 'override' ? header.lastRow : undefined);
+      tableSizes[region.label] = {
+        dataRows: Math.max(0, region.range.e.r - regionHeader.lastRow),
+        columns: region.range.e.c - region.range.s.c + 1,
+      };
+    }
 
     sheets.push({
       name: sheetName,
       isHidden,
       rowCount,
       columnCount,
-      headers,
+      headers: header.labels,
+      headerRow: header.lastRow + 1,
+      headerRowCount: header.lastRow - header.firstRow + 1,
+      dataRowCount: Math.max(0, range.e.r - header.lastRow),
       hasData,
+      mergedRangeCount,
+      tables: sheetRegions.map(region => region.label),
+      tableSizes,
     });
   }
 
@@ -88,68 +156,22 @@ function getSheetInfo(workbook: XLSX.WorkBook): SheetInfo[] {
 }
 
 /**
- * Find potential key/ID columns
- */
-function findPotentialKeyColumns(workbook: XLSX.WorkBook): ColumnCandidate[] {
-  const candidates: ColumnCandidate[] = [];
-
-  for (const sheetName of workbook.SheetNames) {
-    const worksheet = workbook.Sheets[sheetName];
-    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
-
-    for (let col = range.s.c; col <= range.e.c; col++) {
-      const headerCell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c: col })];
-      const headerValue = headerCell ? String(headerCell.v || '') : '';
-
-      if (KEY_COLUMN_PATTERNS.test(headerValue)) {
-        // Get sample values (up to 5)
-        const sampleValues: string[] = [];
-        for (let row = range.s.r + 1; row <= Math.min(range.s.r + 5, range.e.r); row++) {
-          const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
-          if (cell && cell.v !== undefined) {
-            sampleValues.push(String(cell.v));
-          }
-        }
-
-        candidates.push({
-          sheet: sheetName,
-          column: headerValue,
-          columnIndex: col,
-          sampleValues,
-        });
-      }
-    }
-  }
-
-  return candidates;
-}
-
-/**
- * Generate analysis preview (before payment)
+ * Generate analysis preview (before payment); pass the upload's inspection
+ * to avoid inspecting the file twice
  */
 export function generatePreview(
   buffer: Buffer,
   fileId: string,
   fileName: string,
-  fileSize: number
+  fileSize: number,
+  inspection?: FileInspection
 ): AnalysisPreview {
-  const workbook = parseWorkbook(buffer);
-  const sheets = getSheetInfo(workbook);
-  const potentialKeyColumns = findPotentialKeyColumns(workbook);
-
-  const checksToRun = [
-    'Workbook integrity check',
-    'Hidden sheets detection',
-    'Header quality analysis',
-    'Empty data detection',
-    'Formula error scanning',
-    'Excel error value detection',
-    'Data type anomaly detection',
-  ];
-
-  if (potentialKeyColumns.length > 0) {
-    checksToRun.push('Duplicate key detection');
-  }
+  const { workbook, source } = loadSpreadsheet(buffer, fileName, inspection);
+  const headers = detectSheetHeaders(workbook);
+  const sheets = getSheetInfo(workbook, headers, detectSheetRegions(workbook));
+  const potentialKeyColumns = findPotentialKeyColumns(workbook, headers);
+
+  const checksToRun = getPreviewCheckTitles({ source, sheets, potentialKeyColumns });
 
   return {
     fileId,
@@ -168,29 +190,60 @@ export function analyzeWorkbook(
   buffer: Buffer,
   fileId: string,
   fileName: string,
-  selectedKeyColumn?: { sheet: string; column: string; columnIndex: number }
+  selectedKeyColumns: KeyColumnSelection[] = [],
+  analysisProfile?: AnalysisProfile
 ): AnalysisResult {
-  const workbook = parseWorkbook(buffer);
-  const sheets = getSheetInfo(workbook);
+  const { workbook, source } = loadSpreadsheet(buffer, fileName);
+  const profile = resolveProfile(analysisProfile);
+  const headers = detectSheetHeaders(workbook, profile.headerRows);
+  const regions = detectSheetRegions(workbook);
+  const sheets = getSheetInfo(workbook, headers, regions);
+  const { thresholds } = profile;
+  const enabledChecks = CHECK_REGISTRY.filter(check => profile.checks[check.id]);
   const findings: Finding[] = [];
-
-  // 1. Workbook integrity check
-  if (workbook.SheetNames.length === 0) {
-    findings.push({
-      id: uuidv4(),
-      severity: 'error',
-      category: 'Workbook Integrity',
-      sheet: '-',
-      description: 'No sheets found in workbook',
-      suggestion: 'Ensure the Excel file contains at least one worksheet with data.',
-    });
-    return createEmptyResult(fileId, fileName, findings, sheets);
-  }
+  const columnProfiles: ColumnProfile[] = [];
 
   // Check sheet limit
   const sheetsToProcess = workbook.SheetNames.slice(0, MAX_SHEETS);
   const sheetsExceeded = workbook.SheetNames.length > MAX_SHEETS;
-  
+
+  // Shared by the formula checks; only built if one of them runs
+  let dependencyGraph: DependencyGraph | undefined;
+  const getDependencyGraph = () => {
+    if (!dependencyGraph) dependencyGraph = buildDependencyGraph(workbook, sheetsToProcess);
+    return dependencyGraph;
+  };
+
+  // Key candidates, for relationship inference; only searched if needed
+  let keyCandidates: ColumnCandidate[] | undefined;
+  const getKeyCandidates = () => {
+    if (!keyCandidates) keyCandidates = findPotentialKeyColumns(workbook, headers);
+    return keyCandidates;
+  };
+
+  // Workbook-level checks (integrity, hidden sheets, ...)
+  for (const check of enabledChecks) {
+    if (check.scope === 'workbook') {
+      findings.push(...check.run({
+        workbook,
+        source,
+        sheets,
+        sheetsToProcess,
+        thresholds,
+        getDependencyGraph,
+        headers,
+        regions,
+        selectedKeyColumns,
+        getKeyCandidates,
+        relationships: profile.relationships,
+      }));
+    }
+  }
+
+  if (workbook.SheetNames.length === 0) {
+    return createResult(fileId, fileName, findings, sheets, columnProfiles, profile, source);
+  }
+
   if (sheetsExceeded) {
     findings.push({
       id: uuidv4(),
@@ -202,19 +255,6 @@ export function analyzeWorkbook(
     });
   }
 
-  // 2. Hidden sheets detection
-  const hiddenSheets = sheets.filter(s => s.isHidden);
-  if (hiddenSheets.length > 0) {
-    findings.push({
-      id: uuidv4(),
-      severity: 'warning',
-      category: 'Hidden Sheets',
-      sheet: hiddenSheets.map(s => s.name).join(', '),
-      description: `${hiddenSheets.length} hidden sheet(s) found: ${hiddenSheets.map(s => s.name).join(', ')}`,
-      suggestion: 'Review hidden sheets for important data that may be overlooked.',
-    });
-  }
-
   // Process each sheet (up to MAX_SHEETS)
   for (const sheetName of sheetsToProcess) {
     const worksheet = workbook.Sheets[sheetName];
@@ -249,329 +289,84 @@ export function analyzeWorkbook(
       });
     }
 
-    // 3. Header quality checks
-    const headers: string[] = [];
-    const emptyHeaders: string[] = [];
-    const headerCounts: Record<string, number> = {};
-
-    for (let col = limitedRange.s.c; col <= limitedRange.e.c; col++) {
-      const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
-      const cell = worksheet[cellAddress];
-      const value = cell ? String(cell.v || '') : '';
-      const colLetter = getColumnLetter(col);
-
-      if (!value.trim()) {
-        emptyHeaders.push(colLetter);
-      } else {
-        headers.push(value);
-        headerCounts[value] = (headerCounts[value] || 0) + 1;
-      }
-    }
-
-    // Check for missing header row (all empty)
-    if (emptyHeaders.length === limitedRange.e.c - limitedRange.s.c + 1) {
-      findings.push({
-        id: uuidv4(),
-        severity: 'error',
-        category: 'Header Quality',
-        sheet: sheetName,
-        description: 'Missing header row - first row is completely blank',
-        suggestion: 'Add descriptive column headers in the first row.',
-      });
-    } else if (emptyHeaders.length > 0) {
-      findings.push({
-        id: uuidv4(),
-        severity: 'warning',
-        category: 'Header Quality',
-        sheet: sheetName,
-        column: emptyHeaders.join(', '),
-        description: `Empty column headers in columns: ${emptyHeaders.join(', ')}`,
-        suggestion: 'Add headers to all columns for better data clarity.',
-      });
-    }
-
-    // Check for duplicate headers
-    const duplicates = Object.entries(headerCounts)
-      .filter(([, count]) => count > 1)
-      .map(([name]) => name);
-
-    if (duplicates.length > 0) {
-      findings.push({
-        id: uuidv4(),
-        severity: 'warning',
-        category: 'Header Quality',
-        sheet: sheetName,
-        description: `Duplicate column headers: ${duplicates.join(', ')}`,
-        suggestion: 'Rename duplicate headers to ensure unique column identifiers.',
-      });
-    }
-
-    // 4. Empty data check
-    if (range.e.r === range.s.r) {
-      findings.push({
-        id: uuidv4(),
-        severity: 'warning',
-        category: 'Empty Data',
-        sheet: sheetName,
-        description: 'Sheet contains only header row with no data rows',
-        suggestion: 'Add data rows or remove empty sheet if not needed.',
-      });
-    }
-
-    // 5 & 6. Formula and error value checks
-    const errorCells: { ref: string; error: string }[] = [];
-
-    for (let row = limitedRange.s.r; row <= limitedRange.e.r; row++) {
-      for (let col = limitedRange.s.c; col <= limitedRange.e.c; col++) {
-        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
-        const cell = worksheet[cellAddress];
-
-        if (cell) {
-          // Check for error type cells
-          if (cell.t === 'e') {
-            errorCells.push({ ref: cellAddress, error: String(cell.w || cell.v) });
-          }
-          // Check cell value for error strings
-          else if (typeof cell.v === 'string') {
-            const errorMatch = EXCEL_ERRORS.find(err => cell.v === err);
-            if (errorMatch) {
-              errorCells.push({ ref: cellAddress, error: errorMatch });
-            }
-          }
+    // Tables on the sheet, with their headers, for per-region checks
+    const override = profile.headerRows[sheetName];
+    const sheetRegions = regions.get(sheetName)!.map(region => ({
+      region,
+      header: getRegionHeader(worksheet, region, override !== undefined ? override - 1 : undefined),
+      limitedRange: {
+        s: region.range.s,
+        e: { r: Math.min(region.range.e.r, maxRow), c: Math.min(region.range.e.c, maxCol) },
+      },
+    }));
+
+    // Sheet-level checks in registry order
+    for (const check of enabledChecks) {
+      if (check.scope !== 'sheet') continue;
+      const context = {
+        workbook,
+        worksheet,
+        sheetName,
+        range,
+        limitedRange,
+        header: headers.get(sheetName)!,
+        selectedKeyColumn: selectedKeyColumns.find(selection => selection.sheet === sheetName),
+        duplicateRowColumns: profile.duplicateRowColumns[sheetName],
+        thresholds,
+        getDependencyGraph,
+      };
+
+      if (check.perRegion && sheetRegions.length > 0) {
+        for (const { region, header, limitedRange: regionLimitedRange } of sheetRegions) {
+          const regionFindings = check.run({ ...context, range: region.range, limitedRange: regionLimitedRange, header, region });
+          findings.push(...regionFindings.map(finding => ({ ...finding, region: region.label })));
         }
+      } else {
+        findings.push(...check.run(context));
       }
     }
 
-    if (errorCells.length > 0) {
-      // Group by error type
-      const errorGroups: Record<string, string[]> = {};
-      for (const { ref, error } of errorCells) {
-        if (!errorGroups[error]) errorGroups[error] = [];
-        errorGroups[error].push(ref);
-      }
-
-      for (const [error, refs] of Object.entries(errorGroups)) {
-        const displayRefs = refs.length > 10 
-          ? refs.slice(0, 10).join(', ') + ` and ${refs.length - 10} more`
-          : refs.join(', ');
-
-        findings.push({
-          id: uuidv4(),
-          severity: 'error',
-          category: 'Formula Errors',
-          sheet: sheetName,
-          cellRef: displayRefs,
-          description: `${refs.length} cell(s) contain ${error} error: ${displayRefs}`,
-          suggestion: getErrorSuggestion(error),
-        });
+    // Data dictionary, per table when the sheet holds several
+    if (sheetRegions.length > 0) {
+      for (const { region, header, limitedRange: regionLimitedRange } of sheetRegions) {
+        columnProfiles.push(...profileColumns(worksheet, sheetName, region.range, regionLimitedRange, header, region.label));
       }
-    }
-
-    // 7. Data type anomaly detection
-    analyzeDataTypeAnomalies(worksheet, limitedRange, sheetName, findings);
-
-    // 8. Duplicate key detection (if selected)
-    if (selectedKeyColumn && selectedKeyColumn.sheet === sheetName) {
-      detectDuplicateKeys(worksheet, limitedRange, selectedKeyColumn, findings);
+    } else {
+      columnProfiles.push(...profileColumns(worksheet, sheetName, range, limitedRange, headers.get(sheetName)!));
     }
   }
 
-  // Calculate score
-  const { score, explanation } = calculateScore(findings);
-
-  return {
-    fileId,
-    fileName,
-    analyzedAt: new Date().toISOString(),
-    score,
-    scoreExplanation: explanation,
-    errorCount: findings.filter(f => f.severity === 'error').length,
-    warningCount: findings.filter(f => f.severity === 'warning').length,
-    infoCount: findings.filter(f => f.severity === 'info').length,
-    findings,
-    sheets,
-  };
+  return createResult(fileId, fileName, findings, sheets, columnProfiles, profile, source);
 }
 
 /**
- * Create empty result when workbook has no sheets
+ * Build the analysis result: apply severity overrides and score findings
  */
-function createEmptyResult(
+function createResult(
   fileId: string,
   fileName: string,
-  findings: Finding[],
-  sheets: SheetInfo[]
+  rawFindings: Finding[],
+  sheets: SheetInfo[],
+  columnProfiles: ColumnProfile[],
+  profile: ResolvedAnalysisProfile,
+  source: SpreadsheetSource
 ): AnalysisResult {
-  const { score, explanation } = calculateScore(findings);
+  const findings = applySeverityOverrides(rawFindings, profile);
+  const { score, explanation, breakdown } = calculateScore(findings, sheets, profile.scoring);
   return {
     fileId,
     fileName,
+    fileFormat: source.format,
     analyzedAt: new Date().toISOString(),
     score,
     scoreExplanation: explanation,
+    scoreBreakdown: breakdown,
     errorCount: findings.filter(f => f.severity === 'error').length,
     warningCount: findings.filter(f => f.severity === 'warning').length,
     infoCount: findings.filter(f => f.severity === 'info').length,
     findings,
     sheets,
+    columnProfiles,
+    profile,
   };
 }
-
-/**
- * Analyze data type anomalies in columns
- */
-function analyzeDataTypeAnomalies(
-  worksheet: XLSX.WorkSheet,
-  range: XLSX.Range,
-  sheetName: string,
-  findings: Finding[]
-): void {
-  for (let col = range.s.c; col <= range.e.c; col++) {
-    const headerCell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c: col })];
-    const headerValue = headerCell ? String(headerCell.v || '') : '';
-    const colLetter = getColumnLetter(col);
-
-    // Collect column data (respect row limit)
-    const values: { value: unknown; type: string; row: number }[] = [];
-    const maxDataRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET);
-    for (let row = range.s.r + 1; row <= maxDataRow; row++) {
-      const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
-      if (cell && cell.v !== undefined) {
-        values.push({
-          value: cell.v,
-          type: cell.t,
-          row: row + 1, // 1-indexed for user
-        });
-      }
-    }
-
-    if (values.length < 5) continue; // Skip columns with too few values
-
-    // Check for date-like text values
-    const textDateCount = values.filter(v => {
-      if (typeof v.value !== 'string') return false;
-      return DATE_PATTERNS.some(pattern => pattern.test(v.value as string));
-    }).length;
-
-    if (textDateCount > 0 && textDateCount / values.length > 0.2) {
-      findings.push({
-        id: uuidv4(),
-        severity: 'warning',
-        category: 'Data Type Anomaly',
-        sheet: sheetName,
-        column: headerValue || colLetter,
-        description: `${textDateCount} values (${Math.round(textDateCount / values.length * 100)}%) appear to be text-formatted dates`,
-        suggestion: 'Convert text dates to proper Excel date format for better sorting and calculations.',
-      });
-    }
-
-    // Check for numeric columns with text values
-    const numericCount = values.filter(v => v.type === 'n').length;
-    const stringCount = values.filter(v => v.type === 's').length;
-
-    if (numericCount > values.length * 0.5 && stringCount > values.length * 0.2) {
-      findings.push({
-        id: uuidv4(),
-        severity: 'warning',
-        category: 'Data Type Anomaly',
-        sheet: sheetName,
-        column: headerValue || colLetter,
-        description: `Mixed data types: ${numericCount} numeric and ${stringCount} text values in a predominantly numeric column`,
-        suggestion: 'Standardize column data types. Convert text numbers to numeric format.',
-      });
-    }
-  }
-}
-
-/**
- * Detect duplicate keys in selected column
- */
-function detectDuplicateKeys(
-  worksheet: XLSX.WorkSheet,
-  range: XLSX.Range,
-  keyColumn: { sheet: string; column: string; columnIndex: number },
-  findings: Finding[]
-): void {
-  const valueCounts: Record<string, number[]> = {};
-
-  // Respect row limit
-  const maxDataRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET);
-  for (let row = range.s.r + 1; row <= maxDataRow; row++) {
-    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: keyColumn.columnIndex })];
-    if (cell && cell.v !== undefined) {
-      const value = String(cell.v);
-      if (!valueCounts[value]) valueCounts[value] = [];
-      valueCounts[value].push(row + 1); // 1-indexed
-    }
-  }
-
-  const duplicates = Object.entries(valueCounts)
-    .filter(([, rows]) => rows.length > 1)
-    .map(([value, rows]) => ({ value, rows }));
-
-  if (duplicates.length > 0) {
-    const totalDuplicateRows = duplicates.reduce((sum, d) => sum + d.rows.length, 0);
-    const displayDuplicates = duplicates.slice(0, 5).map(d => 
-      `"${d.value}" (rows ${d.rows.slice(0, 3).join(', ')}${d.rows.length > 3 ? '...' : ''})`
-    );
-
-    findings.push({
-      id: uuidv4(),
-      severity: 'error',
-      category: 'Duplicate Keys',
-      sheet: keyColumn.sheet,
-      column: keyColumn.column,
-      rowNumbers: duplicates.flatMap(d => d.rows),
-      description: `${duplicates.length} duplicate values found affecting ${totalDuplicateRows} rows: ${displayDuplicates.join('; ')}${duplicates.length > 5 ? ` and ${duplicates.length - 5} more` : ''}`,
-      suggestion: 'Remove or fix duplicate key values to ensure data integrity.',
-    });
-  }
-}
-
-/**
- * Get suggestion for specific Excel error
- */
-function getErrorSuggestion(error: string): string {
-  const suggestions: Record<string, string> = {
-    '#REF!': 'Fix broken cell references. A referenced cell may have been deleted.',
-    '#DIV/0!': 'Check formulas dividing by zero. Add error handling or fix denominator.',
-    '#NAME?': 'Fix undefined function or named range. Check for typos in formula names.',
-    '#VALUE!': 'Correct data type mismatch. Ensure formula inputs are correct types.',
-    '#N/A': 'Fix lookup formula - value not found. Check lookup criteria and data.',
-    '#NULL!': 'Correct range intersection error. Use proper range operators.',
-    '#NUM!': 'Fix invalid numeric value in formula. Check for out-of-range numbers.',
-    '#GETTING_DATA': 'Wait for external data to load or check data connection.',
-  };
-  return suggestions[error] || 'Review and fix the formula error.';
-}
-
-/**
- * Calculate score based on findings
- */
-function calculateScore(findings: Finding[]): { score: number; explanation: string } {
-  const errors = findings.filter(f => f.severity === 'error').length;
-  const warnings = findings.filter(f => f.severity === 'warning').length;
-
-  let score = 100;
-  const errorPenalty = Math.min(errors * 10, 70);
-  const warningPenalty = Math.min(warnings * 3, 30);
-
-  score -= errorPenalty;
-  score -= warningPenalty;
-  score = Math.max(0, score);
-
-  let explanation = `Starting score: 100. `;
-  if (errors > 0) {
-    explanation += `${errors} error(s) × 10 points = -${errorPenalty} (capped at 70). `;
-  }
-  if (warnings > 0) {
-    explanation += `${warnings} warning(s) × 3 points = -${warningPenalty} (capped at 30). `;
-  }
-  if (errors === 0 && warnings === 0) {
-    explanation += 'No issues found! ';
-  }
-  explanation += `Final score: ${score}/100.`;
-
-  return { score, explanation };
-}
-
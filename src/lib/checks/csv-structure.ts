@@ -0,0 +1,90 @@
+/**
+ * CSV Structure Check
+ * Reports ragged rows, byte order marks, mixed line endings and
+ * non-UTF-8 encodings in delimited text uploads
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+import { describeDelimiter } from '../csv';
+
+export const csvStructureCheck: WorkbookCheckDefinition = {
+  id: 'csv-structure',
+  title: 'CSV structure and encoding check',
+  category: 'CSV Structure',
+  defaultSeverity: 'warning',
+  scope: 'workbook',
+  appliesTo: ({ source }) => source.format === 'csv',
+  run({ workbook, source, thresholds }) {
+    const csv = source.csv;
+    if (!csv) return [];
+
+    const findings: Finding[] = [];
+    const sheet = workbook.SheetNames[0] || '-';
+    const { dialect } = csv;
+
+    // Rows with a different number of fields than the header
+    if (csv.raggedRows.length > 0) {
+      const shown = csv.raggedRows.slice(0, thresholds.maxDisplayRefs)
+        .map(r => `row ${r.row} (${r.fieldCount} fields)`);
+      const more = csv.raggedRows.length - shown.length;
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'CSV Structure',
+        sheet,
+        rowNumbers: csv.raggedRows.map(r => r.row),
+        affectedCells: csv.raggedRows.length * Math.max(1, csv.expectedFieldCount),
+        description: `${csv.raggedRows.length} row(s) have a different number of fields than the header (${csv.expectedFieldCount}): ${shown.join(', ')}${more > 0 ? ` and ${more} more` : ''}`,
+        suggestion: `Check for unquoted ${describeDelimiter(dialect.delimiter)}s inside values or missing/extra delimiters in these rows.`,
+      });
+    }
+
+    // Byte order mark
+    if (dialect.hasBom) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'CSV Structure',
+        sheet,
+        description: `File starts with a ${dialect.encoding.toUpperCase()} byte order mark (BOM)`,
+        suggestion: 'Some importers read the BOM as part of the first header name. Save without BOM if the first column is not recognised.',
+      });
+    }
+
+    // Mixed line endings
+    const { crlf, lf, cr } = dialect.lineEndings;
+    const styles = [
+      crlf > 0 ? `${crlf} CRLF` : null,
+      lf > 0 ? `${lf} LF` : null,
+      cr > 0 ? `${cr} CR` : null,
+    ].filter((style): style is string => style !== null);
+
+    if (styles.length > 1) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'CSV Structure',
+        sheet,
+        description: `Mixed line endings: ${styles.join(', ')}`,
+        suggestion: 'Normalize line endings (usually LF or CRLF throughout). Mixed endings suggest the file was edited or concatenated by different tools.',
+      });
+    }
+
+    // Legacy encodings
+    if (dialect.encoding !== 'utf-8') {
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'CSV Structure',
+        sheet,
+        description: `File is encoded as ${dialect.encoding.toUpperCase()} (${describeDelimiter(dialect.delimiter)}-delimited${dialect.quoteChar ? `, ${dialect.quoteChar === '"' ? 'double' : 'single'}-quoted fields` : ''})`,
+        suggestion: 'Export as UTF-8 to avoid garbled accented or non-Latin characters in other tools.',
+      });
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,137 @@
+/**
+ * Data Type Anomalies Check
+ * Detects text-formatted dates, mixed numeric/text columns and numbers
+ * stored as formatted text (separators, currency, negative notations)
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { MAX_ROWS_PER_SHEET } from '../limits';
+import { DATE_PATTERNS, formatRefList, getColumnLetter, getHeaderLabel } from './helpers';
+import { parseNumberText, type DecimalConvention } from '../number-formats';
+
+// Share of a column's text cells that must parse as numbers before they are reported
+const NUMBER_TEXT_SHARE = 0.5;
+// Example cells quoted per finding
+const MAX_EXAMPLES = 3;
+
+const CONVENTION_LABELS: Record<DecimalConvention, string> = {
+  dot: 'dot decimal, e.g. 1,234.56 (US/UK)',
+  comma: 'comma decimal, e.g. 1.234,56 (continental European)',
+};
+
+export const dataTypeAnomaliesCheck: SheetCheckDefinition = {
+  id: 'data-type-anomalies',
+  title: 'Data type anomaly detection',
+  category: 'Data Type Anomaly',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  perRegion: true,
+  run({ worksheet, sheetName, limitedRange: range, header, thresholds }) {
+    const findings: Finding[] = [];
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const headerValue = getHeaderLabel(header, range, col);
+      const colLetter = getColumnLetter(col);
+
+      // Collect column data (respect row limit)
+      const values: { value: unknown; type: string; row: number; ref: string }[] = [];
+      const maxDataRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET);
+      for (let row = header.lastRow + 1; row <= maxDataRow; row++) {
+        const ref = XLSX.utils.encode_cell({ r: row, c: col });
+        const cell = worksheet[ref];
+        if (cell && cell.v !== undefined) {
+          values.push({
+            value: cell.v,
+            type: cell.t,
+            row: row + 1, // 1-indexed for user
+            ref,
+          });
+        }
+      }
+
+      if (values.length < thresholds.minColumnValues) continue; // Skip columns with too few values
+
+      // Check for date-like text values
+      const textDateCount = values.filter(v => {
+        if (typeof v.value !== 'string') return false;
+        return DATE_PATTERNS.some(pattern => pattern.test(v.value as string));
+      }).length;
+
+      if (textDateCount > 0 && textDateCount / values.length > thresholds.textDateRatio) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Data Type Anomaly',
+          sheet: sheetName,
+          column: headerValue || colLetter,
+          affectedCells: textDateCount,
+          description: `${textDateCount} values (${Math.round(textDateCount / values.length * 100)}%) appear to be text-formatted dates`,
+          suggestion: 'Convert text dates to proper Excel date format for better sorting and calculations.',
+        });
+      }
+
+      const numericCount = values.filter(v => v.type === 'n').length;
+      const stringCount = values.filter(v => v.type === 's').length;
+
+      // Numbers typed as formatted text ("$1,200", "(45)", "1.234,56")
+      const numberTexts = values
+        .filter(v => v.type === 's')
+        .map(v => ({ ...v, parsed: parseNumberText(String(v.value)) }))
+        .filter(v => v.parsed !== null);
+      const reportNumberTexts = numberTexts.length > 0 && numberTexts.length >= stringCount * NUMBER_TEXT_SHARE;
+      // Text cells reported as numbers stored as text are not counted again as mixed types
+      const otherTextCount = stringCount - (reportNumberTexts ? numberTexts.length : 0);
+
+      // Check for numeric columns with text values
+      if (
+        numericCount > values.length * thresholds.mixedTypeNumericRatio &&
+        otherTextCount > values.length * thresholds.mixedTypeTextRatio
+      ) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Data Type Anomaly',
+          sheet: sheetName,
+          column: headerValue || colLetter,
+          affectedCells: otherTextCount,
+          description: `Mixed data types: ${numericCount} numeric and ${otherTextCount} text values in a predominantly numeric column`,
+          suggestion: 'Standardize column data types. Convert text numbers to numeric format.',
+        });
+      }
+
+      // Check for numbers stored as text
+      if (reportNumberTexts) {
+        const notations = Array.from(new Set(numberTexts.flatMap(v => v.parsed!.notations)));
+        const conventions = (['dot', 'comma'] as const)
+          .map(convention => ({ convention, count: numberTexts.filter(v => v.parsed!.convention === convention).length }))
+          .filter(c => c.count > 0);
+        const locale = conventions.length === 2
+          ? `mixed (${conventions.map(c => `${c.count} ${c.convention} decimal`).join(', ')})`
+          : conventions.length === 1
+            ? CONVENTION_LABELS[conventions[0].convention]
+            : 'unclear, separators fit either convention';
+        const examples = numberTexts.slice(0, MAX_EXAMPLES).map(v => `"${v.value}" (${v.ref})`).join(', ');
+
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Data Type Anomaly',
+          sheet: sheetName,
+          column: headerValue || colLetter,
+          cellRef: formatRefList(numberTexts.map(v => v.ref), thresholds.maxDisplayRefs),
+          rowNumbers: numberTexts.map(v => v.row),
+          affectedCells: numberTexts.length,
+          description: `${numberTexts.length} numbers stored as text${notations.length ? ` with ${notations.join(', ')}` : ''}; number format: ${locale}. Examples: ${examples}`,
+          suggestion: conventions.length === 2
+            ? 'The column mixes decimal conventions, so the same text means different numbers. Decide on one convention, then convert the cells to numbers.'
+            : 'Convert these cells to numbers (Text to Columns or NUMBERVALUE with the matching separators) and apply currency or negative formats as number formats instead of typed characters.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,188 @@
+/**
+ * Date Ambiguity Check
+ * Works out whether a column's text dates read as day-first (DMY) or
+ * month-first (MDY), flags columns mixing both and text dates with two-digit
+ * years, and finds Excel date serials shown without a date format
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { MAX_ROWS_PER_SHEET } from '../limits';
+import { formatRefList, getColumnLetter, getHeaderLabel } from './helpers';
+
+// Numeric dates with one separator throughout: 03/04/2024, 3-4-24, 03.04.2024
+const NUMERIC_DATE = /^(\d{1,2})([/\-.])(\d{1,2})\2(\d{2}|\d{4})$/;
+// Header words that name a date column ("Order Date", "created_at", "DOB")
+const DATE_HEADER_WORDS = ['date', 'dated', 'day', 'dob', 'birthday', 'birthdate', 'born', 'created', 'updated', 'modified', 'expiry', 'expires', 'expiration', 'timestamp', 'when'];
+// Share of a column's values that must be dates before its text dates or serials are reported
+const MIN_DATE_RATIO = 0.5;
+// Serials between 1970-01-01 and 2050-12-31 are plausible dates
+const MIN_DATE_SERIAL = 25569;
+const MAX_DATE_SERIAL = 55153;
+// Example cells quoted per finding
+const MAX_EXAMPLES = 3;
+
+type DateOrder = 'DMY' | 'MDY' | 'either';
+
+interface DateCell {
+  text: string;
+  ref: string;
+  row: number;
+}
+
+/**
+ * Which day/month orders a text date is valid under, or null if neither
+ */
+function getDateOrder(first: number, second: number): DateOrder | null {
+  const dmy = first >= 1 && first <= 31 && second >= 1 && second <= 12;
+  const mdy = first >= 1 && first <= 12 && second >= 1 && second <= 31;
+  if (dmy && mdy) return 'either';
+  if (dmy) return 'DMY';
+  if (mdy) return 'MDY';
+  return null;
+}
+
+/**
+ * Whether a header has a date word, matched as a whole word ("DueDate" but not "Residue")
+ */
+function isDateHeader(label: string): boolean {
+  const words = label.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z]+/);
+  return words.some(word => DATE_HEADER_WORDS.includes(word));
+}
+
+function formatExamples(cells: DateCell[]): string {
+  return cells.slice(0, MAX_EXAMPLES).map(c => `"${c.text}" (${c.ref})`).join(', ');
+}
+
+function toIsoDate(serial: number): string {
+  const { y, m, d } = XLSX.SSF.parse_date_code(serial);
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+export const dateAmbiguityCheck: SheetCheckDefinition = {
+  id: 'date-ambiguity',
+  title: 'Date ambiguity detection',
+  category: 'Date Ambiguity',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  perRegion: true,
+  run({ worksheet, sheetName, limitedRange: range, header, thresholds }) {
+    const findings: Finding[] = [];
+    const maxDataRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET);
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const headerValue = getHeaderLabel(header, range, col);
+      const column = headerValue || getColumnLetter(col);
+
+      const byOrder: Record<DateOrder, DateCell[]> = { DMY: [], MDY: [], either: [] };
+      const twoDigitYears: DateCell[] = [];
+      const serials: (DateCell & { serial: number })[] = [];
+      let formattedDates = 0;
+      let textDateCount = 0;
+      let filled = 0;
+
+      for (let row = header.lastRow + 1; row <= maxDataRow; row++) {
+        const ref = XLSX.utils.encode_cell({ r: row, c: col });
+        const cell = worksheet[ref];
+        if (!cell || cell.v === undefined || cell.v === '') continue;
+        filled++;
+
+        if (cell.t === 's') {
+          const text = String(cell.v).trim();
+          const match = text.match(NUMERIC_DATE);
+          // Dotted values with two-digit endings are version or section numbers ("1.2.10")
+          if (!match || (match[2] === '.' && match[4].length === 2)) continue;
+          const [first, second] = [Number(match[1]), Number(match[3])];
+          const order = getDateOrder(first, second);
+          if (!order) continue;
+          textDateCount++;
+          // Equal day and month ("05/05/2024") read the same either way
+          if (order !== 'either' || first !== second) byOrder[order].push({ text, ref, row: row + 1 });
+          // Real dates store the full year whatever their format shows, so only text counts
+          if (match[4].length === 2) twoDigitYears.push({ text, ref, row: row + 1 });
+        } else if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+          formattedDates++;
+        } else if (
+          cell.t === 'n' &&
+          Number.isInteger(cell.v) &&
+          (cell.v as number) >= MIN_DATE_SERIAL &&
+          (cell.v as number) <= MAX_DATE_SERIAL
+        ) {
+          serials.push({ text: String(cell.v), ref, row: row + 1, serial: cell.v as number });
+        }
+      }
+
+      // Text dates are only reported in columns that mostly hold dates, so codes
+      // that happen to look like dates ("3-4-21") in a text column are left alone
+      const mostlyTextDates = textDateCount + formattedDates >= filled * MIN_DATE_RATIO;
+
+      // Day-first and month-first dates in the same column
+      const textDates = [...byOrder.DMY, ...byOrder.MDY, ...byOrder.either];
+      if (mostlyTextDates && byOrder.DMY.length > 0 && byOrder.MDY.length > 0) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Date Ambiguity',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(textDates.map(d => d.ref), thresholds.maxDisplayRefs),
+          rowNumbers: textDates.map(d => d.row).sort((a, b) => a - b),
+          affectedCells: textDates.length,
+          description: `Column mixes date orders: ${byOrder.DMY.length} date(s) only valid day-first (DMY), e.g. ${formatExamples(byOrder.DMY)}, and ${byOrder.MDY.length} only valid month-first (MDY), e.g. ${formatExamples(byOrder.MDY)}${byOrder.either.length ? `; ${byOrder.either.length} more could be either` : ''}`,
+          suggestion: 'The dates were probably entered or imported with different regional settings, so some of them are wrong. Re-import the source with one date order, or convert to unambiguous dates (YYYY-MM-DD).',
+        });
+      } else if (mostlyTextDates && byOrder.either.length > 0 && byOrder.DMY.length === 0 && byOrder.MDY.length === 0) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'info',
+          category: 'Date Ambiguity',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(byOrder.either.map(d => d.ref), thresholds.maxDisplayRefs),
+          rowNumbers: byOrder.either.map(d => d.row),
+          affectedCells: byOrder.either.length,
+          description: `${byOrder.either.length} text date(s) read as both day-first (DMY) and month-first (MDY), and no value in the column decides which, e.g. ${formatExamples(byOrder.either)}`,
+          suggestion: 'Confirm the intended date order with the data source and convert the column to real dates or YYYY-MM-DD text.',
+        });
+      }
+
+      // Two-digit years depend on the reader's century cutoff
+      if (mostlyTextDates && twoDigitYears.length > 0) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Date Ambiguity',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(twoDigitYears.map(d => d.ref), thresholds.maxDisplayRefs),
+          rowNumbers: twoDigitYears.map(d => d.row),
+          affectedCells: twoDigitYears.length,
+          description: `${twoDigitYears.length} text date(s) with two-digit years, e.g. ${formatExamples(twoDigitYears)}`,
+          suggestion: 'Use four-digit years; programs disagree on whether "29" means 1929 or 2029.',
+        });
+      }
+
+      // Date serials shown as plain numbers, in a date column or next to formatted
+      // dates, when most of the column is dates (amounts can fall in the serial range)
+      const mostlyDates = serials.length + formattedDates >= filled * MIN_DATE_RATIO;
+      if (serials.length > 0 && mostlyDates && (formattedDates > 0 || (!!headerValue && isDateHeader(headerValue)))) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Date Ambiguity',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(serials.map(d => d.ref), thresholds.maxDisplayRefs),
+          rowNumbers: serials.map(d => d.row),
+          affectedCells: serials.length,
+          description: `${serials.length} number(s) look like Excel date serials without a date format, e.g. ${serials.slice(0, MAX_EXAMPLES).map(d => `${d.serial} = ${toIsoDate(d.serial)} (${d.ref})`).join(', ')}`,
+          suggestion: 'Apply a date number format to these cells so they display as dates.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
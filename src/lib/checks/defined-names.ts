@@ -0,0 +1,146 @@
+/**
+ * Defined Names Check
+ * Validates named ranges: broken (#REF!) definitions, names scoped to
+ * deleted or hidden sheets, names repeated across scopes and unused names
+ */
+
+import type * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+import { parseIdentifiers, parseReferences } from '../formula';
+
+// Names Excel creates for print areas, filters, etc.
+const BUILT_IN_PREFIX = '_xlnm.';
+
+// SheetJS sets Hidden for names hidden from Name Manager (usually add-in or system names)
+type ParsedName = XLSX.DefinedName & { Hidden?: boolean };
+
+function describeScope(name: XLSX.DefinedName, workbook: XLSX.WorkBook): string {
+  if (name.Sheet === undefined) return 'Workbook';
+  return workbook.SheetNames[name.Sheet] ?? `deleted sheet #${name.Sheet + 1}`;
+}
+
+function describeName(name: XLSX.DefinedName, workbook: XLSX.WorkBook): string {
+  return `"${name.Name}" (${describeScope(name, workbook)} scope, =${name.Ref})`;
+}
+
+/**
+ * Sheet a finding about this name belongs to: its scope, else the sheet it points at
+ */
+function getNameSheet(name: XLSX.DefinedName, workbook: XLSX.WorkBook): string {
+  if (name.Sheet !== undefined && workbook.SheetNames[name.Sheet]) return workbook.SheetNames[name.Sheet];
+  return parseReferences(name.Ref)[0]?.sheet || '-';
+}
+
+export const definedNamesCheck: WorkbookCheckDefinition = {
+  id: 'defined-names',
+  title: 'Defined names (named ranges) validation',
+  category: 'Defined Names',
+  defaultSeverity: 'warning',
+  scope: 'workbook',
+  run({ workbook, thresholds }) {
+    const names: ParsedName[] = (workbook.Workbook?.Names || []).filter(n => !n.Name.startsWith(BUILT_IN_PREFIX));
+    if (names.length === 0) return [];
+
+    const findings: Finding[] = [];
+    const sheetsByLowerName = new Set(workbook.SheetNames.map(name => name.toLowerCase()));
+    const sheetProps = workbook.Workbook?.Sheets || [];
+    const broken = new Set<ParsedName>();
+
+    for (const name of names) {
+      // Definitions broken by deleted cells or sheets
+      const missingSheets = parseReferences(name.Ref)
+        .filter(r => r.sheet !== undefined && !r.externalWorkbook && !sheetsByLowerName.has(r.sheet.toLowerCase()))
+        .map(r => r.sheet);
+
+      // A deleted reference explains the name on its own, whatever else it points at
+      const deleted = name.Ref.toUpperCase().includes('#REF!');
+      if (deleted || missingSheets.length > 0) {
+        broken.add(name);
+        findings.push({
+          id: uuidv4(),
+          severity: 'error',
+          category: 'Defined Names',
+          sheet: getNameSheet(name, workbook),
+          description: deleted
+            ? `Named range ${describeName(name, workbook)} points at a deleted reference (#REF!)`
+            : `Named range ${describeName(name, workbook)} points at missing sheet(s): ${Array.from(new Set(missingSheets)).join(', ')}`,
+          suggestion: 'Redefine the name in Formulas > Name Manager, or delete it if nothing should use it. Formulas using it return #REF!.',
+        });
+      }
+
+      // Scope
+      if (name.Sheet !== undefined) {
+        if (name.Sheet >= workbook.SheetNames.length) {
+          findings.push({
+            id: uuidv4(),
+            severity: 'warning',
+            category: 'Defined Names',
+            sheet: '-',
+            description: `Named range ${describeName(name, workbook)} is scoped to a sheet that no longer exists`,
+            suggestion: 'Delete the orphaned name in Formulas > Name Manager.',
+          });
+        } else if (sheetProps[name.Sheet]?.Hidden) {
+          findings.push({
+            id: uuidv4(),
+            severity: 'info',
+            category: 'Defined Names',
+            sheet: workbook.SheetNames[name.Sheet],
+            description: `Named range ${describeName(name, workbook)} is scoped to ${sheetProps[name.Sheet].Hidden === 2 ? 'very hidden' : 'hidden'} sheet "${workbook.SheetNames[name.Sheet]}"`,
+            suggestion: 'Names scoped to a hidden sheet are only usable from that sheet. Check whether the name should be workbook-scoped.',
+          });
+        }
+      }
+    }
+
+    // The same name defined at more than one scope
+    const byName = new Map<string, XLSX.DefinedName[]>();
+    for (const name of names) {
+      const key = name.Name.toLowerCase();
+      byName.set(key, [...(byName.get(key) || []), name]);
+    }
+    for (const definitions of byName.values()) {
+      if (definitions.length < 2) continue;
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Defined Names',
+        sheet: getNameSheet(definitions[0], workbook),
+        description: `Name "${definitions[0].Name}" is defined ${definitions.length} times with different scopes: ${definitions.map(d => `${describeScope(d, workbook)} (=${d.Ref})`).join(', ')}`,
+        suggestion: 'Formulas resolve to the sheet-scoped definition on that sheet and the workbook one elsewhere. Rename one of them so each name means one thing.',
+      });
+    }
+
+    // Names no formula (or other name) uses; broken names are already reported
+    const used = new Set<string>();
+    for (const sheetName of workbook.SheetNames) {
+      const worksheet = workbook.Sheets[sheetName];
+      for (const address of Object.keys(worksheet)) {
+        if (address.startsWith('!')) continue;
+        const formula = worksheet[address]?.f;
+        if (formula) parseIdentifiers(formula).forEach(id => used.add(id));
+      }
+    }
+    for (const name of names) {
+      parseIdentifiers(name.Ref).forEach(id => {
+        if (id !== name.Name.toUpperCase()) used.add(id);
+      });
+    }
+
+    const unused = names.filter(n => !n.Hidden && !broken.has(n) && !used.has(n.Name.toUpperCase()));
+    if (unused.length > 0) {
+      const shown = unused.slice(0, thresholds.maxDisplayRefs).map(n => describeName(n, workbook));
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'Defined Names',
+        sheet: '-',
+        description: `${unused.length} defined name(s) are not used by any formula: ${shown.join(', ')}${unused.length > shown.length ? ` and ${unused.length - shown.length} more` : ''}`,
+        suggestion: 'Unused names may be left over from old versions. Delete them unless they are used by charts, data validation or macros.',
+      });
+    }
+
+    return findings;
+  },
+};
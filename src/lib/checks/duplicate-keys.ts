@@ -0,0 +1,119 @@
+/**
+ * Duplicate Keys Check
+ * Detects repeated values in the user-selected key column, or repeated
+ * value combinations for a composite key, plus near-duplicates that only
+ * differ in case, spacing, punctuation, leading zeros or Unicode form
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { MAX_ROWS_PER_SHEET } from '../limits';
+
+// Punctuation and whitespace ignored when comparing keys
+const KEY_PUNCTUATION = /[\s\-_.,;:'"`/\\|()[\]{}<>#*+&^%$@!?~=]+/g;
+
+/**
+ * Comparison form of a key value: NFKC, case-folded, without punctuation or
+ * whitespace, and without leading zeros in numbers ("ABC-0012 " -> "abc12")
+ */
+function normalizeKey(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(KEY_PUNCTUATION, '')
+    .replace(/(^|\D)0+(?=\d)/g, '$1');
+}
+
+export const duplicateKeysCheck: SheetCheckDefinition = {
+  id: 'duplicate-keys',
+  title: 'Duplicate key detection',
+  category: 'Duplicate Keys',
+  defaultSeverity: 'error',
+  scope: 'sheet',
+  perRegion: true,
+  appliesTo: ({ potentialKeyColumns }) => potentialKeyColumns.length > 0,
+  run({ worksheet, sheetName, limitedRange: range, header, selectedKeyColumn: keyColumn }) {
+    if (!keyColumn || keyColumn.sheet !== sheetName) return [];
+    const keyIndexes = keyColumn.columns?.length
+      ? keyColumn.columns.map(c => c.columnIndex)
+      : [keyColumn.columnIndex];
+    const keyLabel = keyColumn.columns?.length
+      ? keyColumn.columns.map(c => c.column).join(' + ')
+      : keyColumn.column;
+    if (keyIndexes.some(col => col < range.s.c || col > range.e.c)) return [];
+
+    const valueCounts: Record<string, number[]> = {};
+    // Normalized key -> raw variants seen
+    const variants = new Map<string, Set<string>>();
+
+    // Respect row limit
+    const maxDataRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET);
+    for (let row = header.lastRow + 1; row <= maxDataRow; row++) {
+      const parts = keyIndexes.map(col => worksheet[XLSX.utils.encode_cell({ r: row, c: col })]);
+      // Rows with no key value at all are blank rows, not duplicates
+      if (parts.every(cell => !cell || cell.v === undefined)) continue;
+      const rawParts = parts.map(cell => (cell && cell.v !== undefined ? String(cell.v) : ''));
+      const value = rawParts.join(' | ');
+      if (!valueCounts[value]) valueCounts[value] = [];
+      valueCounts[value].push(row + 1); // 1-indexed
+
+      const normalized = JSON.stringify(rawParts.map(normalizeKey));
+      variants.set(normalized, (variants.get(normalized) || new Set<string>()).add(value));
+    }
+
+    const findings: Finding[] = [];
+
+    const duplicates = Object.entries(valueCounts)
+      .filter(([, rows]) => rows.length > 1)
+      .map(([value, rows]) => ({ value, rows }));
+
+    if (duplicates.length > 0) {
+      const totalDuplicateRows = duplicates.reduce((sum, d) => sum + d.rows.length, 0);
+      const displayDuplicates = duplicates.slice(0, 5).map(d =>
+        `"${d.value}" (rows ${d.rows.slice(0, 3).join(', ')}${d.rows.length > 3 ? '...' : ''})`
+      );
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'error',
+        category: 'Duplicate Keys',
+        sheet: keyColumn.sheet,
+        column: keyLabel,
+        rowNumbers: duplicates.flatMap(d => d.rows),
+        affectedCells: totalDuplicateRows,
+        description: `${duplicates.length} duplicate values found affecting ${totalDuplicateRows} rows: ${displayDuplicates.join('; ')}${duplicates.length > 5 ? ` and ${duplicates.length - 5} more` : ''}`,
+        suggestion: keyIndexes.length > 1
+          ? 'Each combination of the key columns should appear once. Remove or fix the repeated combinations to ensure data integrity.'
+          : 'Remove or fix duplicate key values to ensure data integrity.',
+      });
+    }
+
+    // Values that are distinct as typed but equal once normalized
+    const clusters = Array.from(variants.values())
+      .filter(values => values.size > 1)
+      .map(values => Array.from(values).map(value => ({ value, rows: valueCounts[value] })));
+
+    if (clusters.length > 0) {
+      const clusterRows = clusters.flatMap(cluster => cluster.flatMap(v => v.rows)).sort((a, b) => a - b);
+      const displayClusters = clusters.slice(0, 5).map(cluster =>
+        cluster.map(v => `"${v.value}" (row${v.rows.length > 1 ? 's' : ''} ${v.rows.slice(0, 3).join(', ')}${v.rows.length > 3 ? '...' : ''})`).join(' ~ ')
+      );
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Near-Duplicate Keys',
+        sheet: keyColumn.sheet,
+        column: keyLabel,
+        rowNumbers: clusterRows,
+        affectedCells: clusterRows.length,
+        description: `${clusters.length} key(s) written in more than one way, affecting ${clusterRows.length} rows: ${displayClusters.join('; ')}${clusters.length > 5 ? ` and ${clusters.length - 5} more` : ''}`,
+        suggestion: 'These values differ only in case, spacing, punctuation, leading zeros or character width, so they probably identify the same record. Standardise the key format and merge the duplicates.',
+      });
+    }
+
+    return findings;
+  },
+};
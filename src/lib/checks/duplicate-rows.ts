@@ -0,0 +1,145 @@
+/**
+ * Duplicate Rows Check
+ * Groups data rows repeated across all columns, or across the columns
+ * selected for the sheet in the analysis profile, and separates exact copies
+ * from rows that only match ignoring whitespace and case
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckContext, SheetCheckDefinition } from './types';
+import { getColumnLetter, getHeaderLabel } from './helpers';
+
+interface DuplicateGroup {
+  // 1-based row numbers, first occurrence first
+  rows: number[];
+  // Rows that are exact copies of an earlier row in the group (excluding the first)
+  exact: number;
+}
+
+function getRowValues(worksheet: XLSX.WorkSheet, row: number, columns: number[]): string[] {
+  return columns.map(col => {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+    return cell && cell.v !== undefined && cell.v !== null ? String(cell.v) : '';
+  });
+}
+
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Resolve profile column names (header labels, else column letters) to indexes
+ */
+function resolveColumns(names: string[], { header, range, limitedRange }: SheetCheckContext): { columns: number[]; missing: string[] } {
+  const columns: number[] = [];
+  const missing: string[] = [];
+  for (const name of names) {
+    let found = -1;
+    for (let col = limitedRange.s.c; col <= limitedRange.e.c && found < 0; col++) {
+      if (normalize(getHeaderLabel(header, range, col)) === normalize(name)) found = col;
+    }
+    if (found < 0 && /^[A-Z]{1,3}$/i.test(name.trim())) {
+      const col = XLSX.utils.decode_col(name.trim().toUpperCase());
+      if (col >= limitedRange.s.c && col <= limitedRange.e.c) found = col;
+    }
+    if (found < 0) missing.push(name);
+    else if (!columns.includes(found)) columns.push(found);
+  }
+  return { columns, missing };
+}
+
+/**
+ * Group rows whose values match ignoring whitespace and case
+ */
+function findDuplicateGroups(worksheet: XLSX.WorkSheet, firstRow: number, lastRow: number, columns: number[]): DuplicateGroup[] {
+  const groups = new Map<string, { rows: number[]; exactKeys: Set<string>; exact: number }>();
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const values = getRowValues(worksheet, row, columns);
+    if (values.every(v => !v.trim())) continue; // blank rows are not duplicates
+
+    const exactKey = JSON.stringify(values);
+    const key = JSON.stringify(values.map(normalize));
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { rows: [row + 1], exactKeys: new Set([exactKey]), exact: 0 });
+    } else {
+      group.rows.push(row + 1);
+      if (group.exactKeys.has(exactKey)) group.exact++;
+      else group.exactKeys.add(exactKey);
+    }
+  }
+
+  return Array.from(groups.values())
+    .filter(g => g.rows.length > 1)
+    .map(({ rows, exact }) => ({ rows, exact }));
+}
+
+function describeGroups(groups: DuplicateGroup[], limit: number): string {
+  const shown = groups.slice(0, limit).map(g =>
+    `rows ${g.rows.slice(0, 5).join(', ')}${g.rows.length > 5 ? '...' : ''} (first at row ${g.rows[0]})`
+  );
+  return shown.join('; ') + (groups.length > limit ? ` and ${groups.length - limit} more set(s)` : '');
+}
+
+export const duplicateRowsCheck: SheetCheckDefinition = {
+  id: 'duplicate-rows',
+  title: 'Duplicate row detection',
+  category: 'Duplicate Rows',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  perRegion: true,
+  run(ctx) {
+    const { worksheet, sheetName, limitedRange: range, header, region, duplicateRowColumns, thresholds } = ctx;
+    const findings: Finding[] = [];
+    const firstRow = header.lastRow + 1;
+    if (firstRow > range.e.r) return [];
+
+    const allColumns: number[] = [];
+    for (let col = range.s.c; col <= range.e.c; col++) allColumns.push(col);
+
+    const report = (groups: DuplicateGroup[], scope: string, columnLabel?: string) => {
+      if (groups.length === 0) return;
+      const extraRows = groups.reduce((sum, g) => sum + g.rows.length - 1, 0);
+      const exact = groups.reduce((sum, g) => sum + g.exact, 0);
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Duplicate Rows',
+        sheet: sheetName,
+        column: columnLabel,
+        rowNumbers: groups.flatMap(g => g.rows.slice(1)),
+        affectedCells: extraRows,
+        description: `${groups.length} set(s) of rows duplicated ${scope}: ${extraRows} repeated row(s), ${exact} exact and ${extraRows - exact} matching only when whitespace and case are ignored. ${describeGroups(groups, thresholds.maxDisplayRefs)}`,
+        suggestion: 'Remove the repeated rows (Data > Remove Duplicates) or confirm they are separate records. Rows matching only ignoring whitespace/case usually come from inconsistent data entry.',
+      });
+    };
+
+    // Rows repeated across every column
+    report(findDuplicateGroups(worksheet, firstRow, range.e.r, allColumns), 'across all columns');
+
+    // Rows repeated on the columns chosen for this sheet
+    if (duplicateRowColumns && duplicateRowColumns.length > 0) {
+      const { columns, missing } = resolveColumns(duplicateRowColumns, ctx);
+      if (columns.length > 0 && columns.length < allColumns.length) {
+        const labels = columns.map(col => getHeaderLabel(header, ctx.range, col) || getColumnLetter(col));
+        report(findDuplicateGroups(worksheet, firstRow, range.e.r, columns), `on ${labels.join(' + ')}`, labels.join(', '));
+      }
+      // Per-table runs skip tables that lack the columns; a single table reports them
+      if (missing.length > 0 && !region) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'info',
+          category: 'Duplicate Rows',
+          sheet: sheetName,
+          description: `Duplicate row columns not found on this sheet: ${missing.join(', ')}`,
+          suggestion: 'Use the header text or the column letter of each column in profile.duplicateRowColumns.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Empty Data Check
+ * Flags sheets that contain a header row but no data rows
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { SheetCheckDefinition } from './types';
+
+export const emptyDataCheck: SheetCheckDefinition = {
+  id: 'empty-data',
+  title: 'Empty data detection',
+  category: 'Empty Data',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  run({ sheetName, range, header }) {
+    if (range.e.r > header.lastRow) return [];
+
+    return [{
+      id: uuidv4(),
+      severity: 'warning',
+      category: 'Empty Data',
+      sheet: sheetName,
+      description: 'Sheet contains only header row with no data rows',
+      suggestion: 'Add data rows or remove empty sheet if not needed.',
+    }];
+  },
+};
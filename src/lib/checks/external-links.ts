@@ -0,0 +1,108 @@
+/**
+ * External Links Check
+ * Inventories links to other workbooks and data connections, the cells that
+ * depend on them, and whether their cached values may be out of date
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+import { readPackageLinks, type ExternalLink } from '../external-links';
+import { formatCellKey, type GraphCell } from '../dependency-graph';
+import { formatRefList } from './helpers';
+
+// Absolute drive paths, UNC shares and file:// URLs only resolve on one machine or network
+const LOCAL_PATH_PATTERN = /^(file:\/\/|[A-Za-z]:[\\/]|\\\\)/i;
+
+function getStaleReasons(link: ExternalLink, updateLinks?: string): string[] {
+  const reasons: string[] = [];
+  if (link.refreshError) reasons.push('the last update failed');
+  if (updateLinks === 'never') reasons.push('the workbook is set never to update links');
+  if (LOCAL_PATH_PATTERN.test(link.target)) reasons.push('the source is a path on one machine or network share');
+  if (link.cachedValues === 0) reasons.push('no cached values are stored with the link');
+  return reasons;
+}
+
+export const externalLinksCheck: WorkbookCheckDefinition = {
+  id: 'external-links',
+  title: 'External links and data connections',
+  category: 'External Links',
+  defaultSeverity: 'warning',
+  scope: 'workbook',
+  appliesTo: ({ source }) => source.format === 'xlsx',
+  run({ workbook, thresholds, getDependencyGraph }) {
+    const { externalLinks, connections, updateLinks } = readPackageLinks(workbook);
+    if (externalLinks.length === 0 && connections.length === 0) return [];
+
+    const findings: Finding[] = [];
+
+    // Formula cells referencing each external workbook ([n]Sheet!A1)
+    const dependents = new Map<string, GraphCell[]>();
+    if (externalLinks.length > 0) {
+      for (const { from, reference } of getDependencyGraph().references) {
+        if (!reference.externalWorkbook) continue;
+        const cells = dependents.get(reference.externalWorkbook) || [];
+        if (!cells.includes(from)) cells.push(from);
+        dependents.set(reference.externalWorkbook, cells);
+      }
+    }
+
+    for (const link of externalLinks) {
+      const cells = dependents.get(String(link.index)) || [];
+      const sheet = cells[0]?.sheet || '-';
+      const refs = cells.map(cell => formatCellKey(cell, sheet));
+      const reasons = getStaleReasons(link, updateLinks);
+      const sheets = link.sheetNames.length > 0 ? ` (sheets: ${link.sheetNames.join(', ')})` : '';
+
+      let description = `External link [${link.index}] to ${link.target}${sheets}`;
+      description += cells.length > 0
+        ? ` is used by ${cells.length} formula(s): ${formatRefList(refs, thresholds.maxDisplayRefs)}.`
+        : ' is not referenced by any formula cell (it may be used by defined names, charts or validation rules).';
+      description += reasons.length > 0
+        ? ` Cached values may be stale: ${reasons.join('; ')}.`
+        : ` ${link.cachedValues} cached value(s) reflect the source as of the last update.`;
+
+      findings.push({
+        id: uuidv4(),
+        severity: cells.length > 0 ? 'warning' : 'info',
+        category: 'External Links',
+        sheet,
+        cellRef: refs.length > 0 ? formatRefList(refs, thresholds.maxDisplayRefs) : undefined,
+        affectedCells: cells.length,
+        description,
+        suggestion: cells.length > 0
+          ? 'Confirm the linked file is available to everyone who uses this workbook, or paste the linked values as values (Data > Edit Links > Break Link).'
+          : 'Remove the unused link (Data > Edit Links > Break Link) so Excel stops prompting to update it.',
+      });
+    }
+
+    for (const connection of connections) {
+      const targets = connection.queryTables.map(q => q.ref ? `${q.sheet}!${q.ref}` : q.sheet);
+      const source = connection.source ? ` from ${connection.source}` : '';
+      const loadsInto = targets.length > 0 ? ` loads into ${targets.join(', ')}` : ' is not loaded into a sheet';
+
+      let staleness: string;
+      if (connection.refreshOnLoad) {
+        staleness = 'Data refreshes when the workbook is opened.';
+      } else if (connection.savesData) {
+        staleness = 'Saved results are shown until someone refreshes, so values may be stale.';
+      } else {
+        staleness = 'Results are not saved with the workbook and must be refreshed before use.';
+      }
+
+      findings.push({
+        id: uuidv4(),
+        severity: connection.refreshOnLoad ? 'info' : 'warning',
+        category: 'External Links',
+        sheet: connection.queryTables[0]?.sheet || '-',
+        cellRef: connection.queryTables.map(q => q.ref).filter(Boolean).join(', ') || undefined,
+        description: `${connection.kind} connection "${connection.name}"${source}${loadsInto}. ${staleness}`,
+        suggestion: connection.refreshOnLoad
+          ? 'Make sure every user of the workbook can reach the data source, or results will fail to refresh.'
+          : 'Refresh the connection before relying on the data, or enable "Refresh data when opening the file".',
+      });
+    }
+
+    return findings;
+  },
+};
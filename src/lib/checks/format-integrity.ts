@@ -0,0 +1,87 @@
+/**
+ * Format Integrity Check
+ * Reports format-specific limitations for XLSB and ODS files, such as
+ * package parts the analyzer cannot inspect
+ */
+
+import type * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+
+// Package directory SheetJS exposes for XLSX/XLSB files (not in its typings)
+interface WorkbookDirectory {
+  vba?: string[];
+  macros?: string[];
+  links?: string[];
+  charts?: string[];
+  dialogs?: string[];
+}
+
+// Directory parts the analyzer does not look inside, with display labels
+const UNINSPECTED_PARTS: { key: keyof WorkbookDirectory; label: string; severity: 'warning' | 'info' }[] = [
+  { key: 'vba', label: 'VBA macro project', severity: 'warning' },
+  { key: 'macros', label: 'XLM macro sheet(s)', severity: 'warning' },
+  { key: 'links', label: 'external workbook link(s)', severity: 'warning' },
+  { key: 'dialogs', label: 'dialog sheet(s)', severity: 'info' },
+  { key: 'charts', label: 'chart(s)', severity: 'info' },
+];
+
+function getDirectory(workbook: XLSX.WorkBook): WorkbookDirectory {
+  return (workbook as XLSX.WorkBook & { Directory?: WorkbookDirectory }).Directory || {};
+}
+
+export const formatIntegrityCheck: WorkbookCheckDefinition = {
+  id: 'format-integrity',
+  title: 'File format integrity check',
+  category: 'Workbook Integrity',
+  defaultSeverity: 'info',
+  scope: 'workbook',
+  appliesTo: ({ source }) => source.format === 'xlsb' || source.format === 'ods',
+  run({ workbook, source }) {
+    const findings: Finding[] = [];
+
+    if (source.format === 'xlsb') {
+      const directory = getDirectory(workbook);
+      const present = UNINSPECTED_PARTS
+        .map(part => ({ ...part, count: directory[part.key]?.length || 0 }))
+        .filter(part => part.count > 0);
+
+      if (present.length > 0) {
+        findings.push({
+          id: uuidv4(),
+          severity: present.some(part => part.severity === 'warning') ? 'warning' : 'info',
+          category: 'Workbook Integrity',
+          sheet: '-',
+          description: `Binary workbook (.xlsb) contains content that cannot be inspected: ${present.map(part => `${part.count} ${part.label}`).join(', ')}`,
+          suggestion: 'Review macros, external links and charts manually, or save as .xlsx for a more complete analysis.',
+        });
+      }
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'Workbook Integrity',
+        sheet: '-',
+        description: 'Binary workbook (.xlsb): formulas are decoded on a best-effort basis and some functions may not be recognised',
+        suggestion: 'Save as .xlsx if formula-related findings look incomplete.',
+      });
+    }
+
+    if (source.format === 'ods') {
+      // The OpenDocument reader does not expose sheet visibility
+      if (!workbook.Workbook?.Sheets?.length) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'info',
+          category: 'Workbook Integrity',
+          sheet: '-',
+          description: 'OpenDocument spreadsheet (.ods): sheet visibility is not available, so hidden sheets cannot be detected',
+          suggestion: 'Check for hidden sheets in LibreOffice (Sheet > Show Sheet) or save as .xlsx for a full analysis.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
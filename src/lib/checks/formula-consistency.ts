@@ -0,0 +1,110 @@
+/**
+ * Formula Consistency Check
+ * Finds calculated columns and flags rows whose formula breaks the column's
+ * pattern, or where the formula was overwritten with a typed constant
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { toRelativeForm } from '../formula';
+import { formatRefList, getColumnLetter, getHeaderLabel } from './helpers';
+
+// Aggregates commonly used on a totals row below a calculated column
+const TOTAL_ROW_PATTERN = /^(SUM|SUBTOTAL|AGGREGATE|AVERAGE|COUNT|COUNTA|MIN|MAX)\(/i;
+
+export const formulaConsistencyCheck: SheetCheckDefinition = {
+  id: 'formula-consistency',
+  title: 'Formula consistency across calculated columns',
+  category: 'Formula Consistency',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  perRegion: true,
+  run({ worksheet, sheetName, limitedRange: range, header, thresholds }) {
+    const findings: Finding[] = [];
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const formulaCells: { ref: string; row: number; formula: string; pattern: string }[] = [];
+      const constantCells: { ref: string; row: number; value: string }[] = [];
+
+      for (let row = header.lastRow + 1; row <= range.e.r; row++) {
+        const ref = XLSX.utils.encode_cell({ r: row, c: col });
+        const cell = worksheet[ref];
+        if (!cell) continue;
+
+        if (cell.f) {
+          formulaCells.push({ ref, row, formula: cell.f, pattern: toRelativeForm(cell.f, row, col) });
+        } else if (cell.v !== undefined && cell.v !== '') {
+          constantCells.push({ ref, row, value: String(cell.w ?? cell.v) });
+        }
+      }
+
+      if (formulaCells.length < thresholds.minColumnValues) continue;
+
+      // Dominant pattern
+      const patternCounts = new Map<string, number>();
+      for (const { pattern } of formulaCells) {
+        patternCounts.set(pattern, (patternCounts.get(pattern) || 0) + 1);
+      }
+      let dominant = '';
+      let dominantCount = 0;
+      for (const [pattern, count] of patternCounts) {
+        if (count > dominantCount) {
+          dominant = pattern;
+          dominantCount = count;
+        }
+      }
+
+      const nonEmpty = formulaCells.length + constantCells.length;
+      if (dominantCount / nonEmpty < thresholds.formulaColumnRatio) continue;
+
+      const headerValue = getHeaderLabel(header, range, col);
+      const column = headerValue || getColumnLetter(col);
+      const example = formulaCells.find(f => f.pattern === dominant)!;
+      const lastFormulaRow = formulaCells[formulaCells.length - 1].row;
+
+      // Formulas whose relative references differ from the column pattern
+      const outliers = formulaCells.filter(f =>
+        f.pattern !== dominant &&
+        !(f.row === lastFormulaRow && TOTAL_ROW_PATTERN.test(f.formula))
+      );
+      if (outliers.length > 0) {
+        const refs = outliers.map(f => f.ref);
+        const shown = outliers.slice(0, 3).map(f => `${f.ref} (=${f.formula})`).join(', ');
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Formula Consistency',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+          affectedCells: refs.length,
+          description: `${refs.length} formula(s) break the column pattern (expected like ${example.ref}: =${example.formula}): ${shown}${outliers.length > 3 ? ` and ${outliers.length - 3} more` : ''}`,
+          suggestion: 'Check whether these formulas reference the wrong row or column, then refill the column from a correct cell.',
+        });
+      }
+
+      // Typed constants inside the calculated column
+      const firstFormulaRow = formulaCells[0].row;
+      const hardCoded = constantCells.filter(c => c.row > firstFormulaRow);
+      if (hardCoded.length > 0) {
+        const refs = hardCoded.map(c => c.ref);
+        const shown = hardCoded.slice(0, 3).map(c => `${c.ref} (${c.value})`).join(', ');
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Formula Consistency',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+          affectedCells: refs.length,
+          description: `${refs.length} hard-coded value(s) in a calculated column where ${dominantCount} cells follow ${example.ref} (=${example.formula}): ${shown}${hardCoded.length > 3 ? ` and ${hardCoded.length - 3} more` : ''}`,
+          suggestion: 'Replace typed values with the column formula, or document why the value is overridden.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
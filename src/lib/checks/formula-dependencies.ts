@@ -0,0 +1,162 @@
+/**
+ * Formula Dependencies Check
+ * Follows references between formulas (across sheets) to find circular
+ * references and references to missing sheets, empty cells or cells
+ * outside the used range
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+import { formatCellKey, findCycles, type GraphCell, type ResolvedReference } from '../dependency-graph';
+import { formatRefList } from './helpers';
+
+/**
+ * Group items by the sheet their formula cell lives on
+ */
+function groupBySheet<T>(items: T[], getSheet: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const sheet = getSheet(item);
+    const list = groups.get(sheet) || [];
+    list.push(item);
+    groups.set(sheet, list);
+  }
+  return groups;
+}
+
+function describeReferences(refs: ResolvedReference[]): string {
+  const shown = refs.slice(0, 3).map(r => `${r.from.ref} → ${r.reference.text}`).join(', ');
+  return `${shown}${refs.length > 3 ? ` and ${refs.length - 3} more` : ''}`;
+}
+
+function isEmptyCell(cell: XLSX.CellObject | undefined): boolean {
+  return !cell || (!cell.f && (cell.v === undefined || cell.v === '' || cell.t === 'z'));
+}
+
+export const formulaDependenciesCheck: WorkbookCheckDefinition = {
+  id: 'formula-dependencies',
+  title: 'Circular reference and broken formula dependency detection',
+  category: 'Formula Errors',
+  defaultSeverity: 'error',
+  scope: 'workbook',
+  run({ workbook, thresholds, getDependencyGraph }) {
+    const graph = getDependencyGraph();
+    if (graph.precedents.size === 0) return [];
+
+    const findings: Finding[] = [];
+    const getCell = (cell: GraphCell) => workbook.Sheets[cell.sheet]?.[cell.ref] as XLSX.CellObject | undefined;
+
+    // Circular references
+    for (const cycle of findCycles(graph)) {
+      const cells = cycle.map(key => graph.cells.get(key)!);
+      const sheet = cells[0].sheet;
+      const refs = cells.map(cell => formatCellKey(cell, sheet));
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'error',
+        category: 'Formula Errors',
+        sheet,
+        cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+        affectedCells: cells.length,
+        description: cells.length === 1
+          ? `Circular reference: ${refs[0]} refers to itself (=${getCell(cells[0])?.f})`
+          : `Circular reference between ${cells.length} cells: ${formatRefList(refs, thresholds.maxDisplayRefs)}`,
+        suggestion: 'Break the loop so each cell depends only on cells calculated before it. Circular results depend on iteration settings and are rarely intended.',
+      });
+    }
+
+    // Deleted references (#REF! left in the formula text) and references to sheets that do not exist
+    const brokenFormulas: GraphCell[] = [];
+    for (const key of graph.precedents.keys()) {
+      const cell = graph.cells.get(key)!;
+      if (getCell(cell)?.f?.toUpperCase().includes('#REF!')) brokenFormulas.push(cell);
+    }
+    for (const [sheet, cells] of groupBySheet(brokenFormulas, c => c.sheet)) {
+      const refs = cells.map(c => c.ref);
+      const shown = cells.slice(0, 3).map(c => `${c.ref} (=${getCell(c)?.f})`).join(', ');
+      findings.push({
+        id: uuidv4(),
+        severity: 'error',
+        category: 'Formula Errors',
+        sheet,
+        cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+        affectedCells: refs.length,
+        description: `${refs.length} formula(s) contain a deleted reference (#REF!): ${shown}${cells.length > 3 ? ` and ${cells.length - 3} more` : ''}`,
+        suggestion: 'The cells or sheet these formulas pointed at were deleted. Re-point them at the correct source data.',
+      });
+    }
+
+    const missingSheets = graph.references.filter(r => !r.targetSheet && !r.reference.externalWorkbook);
+    for (const [sheet, refs] of groupBySheet(missingSheets, r => r.from.sheet)) {
+      const names = Array.from(new Set(refs.map(r => r.reference.sheet)));
+      findings.push({
+        id: uuidv4(),
+        severity: 'error',
+        category: 'Formula Errors',
+        sheet,
+        cellRef: formatRefList(Array.from(new Set(refs.map(r => r.from.ref))), thresholds.maxDisplayRefs),
+        affectedCells: refs.length,
+        description: `${refs.length} reference(s) to missing sheet(s) ${names.map(n => `"${n}"`).join(', ')}: ${describeReferences(refs)}`,
+        suggestion: 'Restore or rename the referenced sheet, or update the formulas to point at the sheet that now holds the data.',
+      });
+    }
+
+    // References entirely outside the target sheet's used range, or to empty cells inside it
+    const outsideRange: ResolvedReference[] = [];
+    const emptyTargets: ResolvedReference[] = [];
+    for (const resolved of graph.references) {
+      const { targetSheet, range } = resolved;
+      if (!targetSheet || !range) continue;
+      const worksheet = workbook.Sheets[targetSheet];
+      const used = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']) : null;
+
+      if (!used || range.s.r > used.e.r || range.s.c > used.e.c || range.e.r < used.s.r || range.e.c < used.s.c) {
+        outsideRange.push(resolved);
+      } else if (!resolved.reference.isRange && isEmptyCell(worksheet[XLSX.utils.encode_cell(range.s)])) {
+        emptyTargets.push(resolved);
+      }
+    }
+
+    for (const [sheet, refs] of groupBySheet(outsideRange, r => r.from.sheet)) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Formula Errors',
+        sheet,
+        cellRef: formatRefList(Array.from(new Set(refs.map(r => r.from.ref))), thresholds.maxDisplayRefs),
+        affectedCells: refs.length,
+        description: `${refs.length} reference(s) point outside the used range of the target sheet: ${describeReferences(refs)}`,
+        suggestion: 'These formulas read only blank cells. Check whether the source data moved or the range was typed incorrectly.',
+      });
+    }
+
+    for (const [sheet, refs] of groupBySheet(emptyTargets, r => r.from.sheet)) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'Formula Errors',
+        sheet,
+        cellRef: formatRefList(Array.from(new Set(refs.map(r => r.from.ref))), thresholds.maxDisplayRefs),
+        affectedCells: refs.length,
+        description: `${refs.length} reference(s) point at empty cells: ${describeReferences(refs)}`,
+        suggestion: 'Empty cells are treated as 0 or "" in calculations. Confirm these inputs are meant to be blank.',
+      });
+    }
+
+    if (graph.truncated) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'Processing Limits',
+        sheet: '-',
+        description: 'The workbook references more ranges than the dependency analysis follows; circular references and error chains through the remaining ranges were not checked.',
+        suggestion: 'Split very large models into smaller workbooks to have every dependency checked.',
+      });
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,103 @@
+/**
+ * Formula Errors Check
+ * Scans cells for Excel error values (#REF!, #DIV/0!, ...) and reports each
+ * error at the cell it originates from, with propagated copies as dependents
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { EXCEL_ERRORS, formatRefList } from './helpers';
+import { cellKey, formatCellKey, getErrorChains } from '../dependency-graph';
+
+/**
+ * Get suggestion for specific Excel error
+ */
+function getErrorSuggestion(error: string): string {
+  const suggestions: Record<string, string> = {
+    '#REF!': 'Fix broken cell references. A referenced cell may have been deleted.',
+    '#DIV/0!': 'Check formulas dividing by zero. Add error handling or fix denominator.',
+    '#NAME?': 'Fix undefined function or named range. Check for typos in formula names.',
+    '#VALUE!': 'Correct data type mismatch. Ensure formula inputs are correct types.',
+    '#N/A': 'Fix lookup formula - value not found. Check lookup criteria and data.',
+    '#NULL!': 'Correct range intersection error. Use proper range operators.',
+    '#NUM!': 'Fix invalid numeric value in formula. Check for out-of-range numbers.',
+    '#GETTING_DATA': 'Wait for external data to load or check data connection.',
+  };
+  return suggestions[error] || 'Review and fix the formula error.';
+}
+
+export const formulaErrorsCheck: SheetCheckDefinition = {
+  id: 'formula-errors',
+  title: 'Formula error and Excel error value detection',
+  category: 'Formula Errors',
+  defaultSeverity: 'error',
+  scope: 'sheet',
+  run({ worksheet, sheetName, limitedRange, thresholds, getDependencyGraph }) {
+    const errorCells: { ref: string; error: string }[] = [];
+
+    for (let row = limitedRange.s.r; row <= limitedRange.e.r; row++) {
+      for (let col = limitedRange.s.c; col <= limitedRange.e.c; col++) {
+        const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
+        const cell = worksheet[cellAddress];
+
+        if (cell) {
+          // Check for error type cells
+          if (cell.t === 'e') {
+            errorCells.push({ ref: cellAddress, error: String(cell.w || cell.v) });
+          }
+          // Check cell value for error strings
+          else if (typeof cell.v === 'string') {
+            const errorMatch = EXCEL_ERRORS.find(err => cell.v === err);
+            if (errorMatch) {
+              errorCells.push({ ref: cellAddress, error: errorMatch });
+            }
+          }
+        }
+      }
+    }
+
+    // The dependency graph is only needed to trace errors back to their origin
+    if (errorCells.length === 0) return [];
+    const graph = getDependencyGraph();
+    const chains = getErrorChains(graph);
+
+    // Group originating cells by error type; errors propagated from a precedent are
+    // reported with the cell they come from (possibly on another sheet)
+    const errorGroups: Record<string, { refs: string[]; dependents: Set<string> }> = {};
+    for (const { ref, error } of errorCells) {
+      const key = cellKey(sheetName, ref);
+      if (chains.propagated.has(key)) continue;
+
+      if (!errorGroups[error]) errorGroups[error] = { refs: [], dependents: new Set() };
+      errorGroups[error].refs.push(ref);
+      for (const dependent of chains.roots.get(key) || []) {
+        errorGroups[error].dependents.add(dependent);
+      }
+    }
+
+    const findings: Finding[] = [];
+    for (const [error, { refs, dependents }] of Object.entries(errorGroups)) {
+      const displayRefs = formatRefList(refs, thresholds.maxDisplayRefs);
+      const dependentRefs = Array.from(dependents).map(key => formatCellKey(graph.cells.get(key)!, sheetName));
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'error',
+        category: 'Formula Errors',
+        sheet: sheetName,
+        cellRef: displayRefs,
+        affectedCells: refs.length,
+        dependentRefs: dependentRefs.length > 0 ? formatRefList(dependentRefs, thresholds.maxDisplayRefs) : undefined,
+        dependentCells: dependentRefs.length > 0 ? dependentRefs.length : undefined,
+        description: dependentRefs.length > 0
+          ? `${refs.length} cell(s) contain ${error} error: ${displayRefs}; ${dependentRefs.length} dependent cell(s) show errors as a result`
+          : `${refs.length} cell(s) contain ${error} error: ${displayRefs}`,
+        suggestion: getErrorSuggestion(error),
+      });
+    }
+
+    return findings;
+  },
+};
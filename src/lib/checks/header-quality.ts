@@ -0,0 +1,89 @@
+/**
+ * Header Quality Check
+ * Detects missing, empty and duplicate column headers in the detected
+ * header row(s)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { getColumnLetter, getHeaderLabel } from './helpers';
+
+export const headerQualityCheck: SheetCheckDefinition = {
+  id: 'header-quality',
+  title: 'Header quality analysis',
+  category: 'Header Quality',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  perRegion: true,
+  run({ sheetName, range, limitedRange, header }) {
+    const findings: Finding[] = [];
+    const emptyHeaders: string[] = [];
+    const headerCounts: Record<string, number> = {};
+
+    for (let col = limitedRange.s.c; col <= limitedRange.e.c; col++) {
+      const value = getHeaderLabel(header, range, col);
+
+      if (!value.trim()) {
+        emptyHeaders.push(getColumnLetter(col));
+      } else {
+        headerCounts[value] = (headerCounts[value] || 0) + 1;
+      }
+    }
+
+    // Check for missing header row (all empty)
+    if (emptyHeaders.length === limitedRange.e.c - limitedRange.s.c + 1) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'error',
+        category: 'Header Quality',
+        sheet: sheetName,
+        description: `Missing header row - row ${header.lastRow + 1} is completely blank`,
+        suggestion: 'Add descriptive column headers above the data.',
+      });
+    } else if (emptyHeaders.length > 0) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Header Quality',
+        sheet: sheetName,
+        column: emptyHeaders.join(', '),
+        description: `Empty column headers in columns: ${emptyHeaders.join(', ')} (header row ${header.lastRow + 1})`,
+        suggestion: 'Add headers to all columns for better data clarity.',
+      });
+    }
+
+    // Check for duplicate headers
+    const duplicates = Object.entries(headerCounts)
+      .filter(([, count]) => count > 1)
+      .map(([name]) => name);
+
+    if (duplicates.length > 0) {
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Header Quality',
+        sheet: sheetName,
+        description: `Duplicate column headers: ${duplicates.join(', ')}`,
+        suggestion: 'Rename duplicate headers to ensure unique column identifiers.',
+      });
+    }
+
+    // Header found somewhere other than a single first row
+    if (header.source === 'detected' && (header.firstRow > range.s.r || header.lastRow > header.firstRow)) {
+      const rows = header.lastRow > header.firstRow
+        ? `rows ${header.firstRow + 1}-${header.lastRow + 1} (labels combined, e.g. "${header.labels.find(l => l.includes(' / ')) || header.labels.find(Boolean)}")`
+        : `row ${header.lastRow + 1}`;
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'Header Quality',
+        sheet: sheetName,
+        description: `Header detected on ${rows}${header.firstRow > range.s.r ? `; rows ${range.s.r + 1}-${header.firstRow} above it are not treated as data` : ''}`,
+        suggestion: 'If the detected header is wrong, set the header row for this sheet with the headerRows option of the analysis profile.',
+      });
+    }
+
+    return findings;
+  },
+};
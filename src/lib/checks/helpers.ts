@@ -0,0 +1,53 @@
+/**
+ * Shared helpers for check modules
+ */
+
+import * as XLSX from 'xlsx';
+import type { HeaderDetection } from '../header-detection';
+
+// Excel error values to detect
+export const EXCEL_ERRORS = ['#REF!', '#DIV/0!', '#NAME?', '#VALUE!', '#N/A', '#NULL!', '#NUM!', '#GETTING_DATA'];
+
+// Date-like patterns
+export const DATE_PATTERNS = [
+  /^\d{1,2}[\/\-\.]\d{1,2}[\/\-\.]\d{2,4}$/,
+  /^\d{4}[\/\-\.]\d{1,2}[\/\-\.]\d{1,2}$/,
+  /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i,
+];
+
+/**
+ * Get column letter from index (0 = A, 1 = B, etc.)
+ */
+export function getColumnLetter(index: number): string {
+  let letter = '';
+  let temp = index;
+  while (temp >= 0) {
+    letter = String.fromCharCode((temp % 26) + 65) + letter;
+    temp = Math.floor(temp / 26) - 1;
+  }
+  return letter;
+}
+
+/**
+ * Get the display value of a cell as a string ('' when empty)
+ */
+export function getCellText(worksheet: XLSX.WorkSheet, row: number, col: number): string {
+  const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+  return cell ? String(cell.v || '') : '';
+}
+
+/**
+ * Header label of a column ('' when the column has no header)
+ */
+export function getHeaderLabel(header: HeaderDetection, range: XLSX.Range, col: number): string {
+  return header.labels[col - range.s.c] || '';
+}
+
+/**
+ * Format a list of cell refs for display, truncating after `limit` entries
+ */
+export function formatRefList(refs: string[], limit: number = 10): string {
+  return refs.length > limit
+    ? refs.slice(0, limit).join(', ') + ` and ${refs.length - limit} more`
+    : refs.join(', ');
+}
@@ -0,0 +1,146 @@
+/**
+ * Hidden Content Check
+ * Reports hidden and very hidden sheets, and hidden or zero-size rows and
+ * columns that still contain data
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+import { MAX_ROWS_PER_SHEET, MAX_COLS_PER_SHEET } from '../limits';
+import { formatRefList, getColumnLetter } from './helpers';
+
+function isHiddenRow(row: XLSX.RowInfo | undefined): boolean {
+  return !!row && (!!row.hidden || row.hpt === 0 || row.hpx === 0);
+}
+
+function isHiddenColumn(col: XLSX.ColInfo | undefined): boolean {
+  return !!col && (!!col.hidden || col.width === 0 || col.wpx === 0 || col.wch === 0);
+}
+
+/**
+ * Collapse sorted indexes into [start, end] runs
+ */
+function toRuns(indexes: number[]): [number, number][] {
+  const runs: [number, number][] = [];
+  for (const index of indexes) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === index - 1) {
+      last[1] = index;
+    } else {
+      runs.push([index, index]);
+    }
+  }
+  return runs;
+}
+
+export const hiddenContentCheck: WorkbookCheckDefinition = {
+  // Id predates row/column detection; kept so saved analysis profiles keep working
+  id: 'hidden-sheets',
+  title: 'Hidden sheets, rows and columns detection',
+  category: 'Hidden Content',
+  defaultSeverity: 'warning',
+  scope: 'workbook',
+  run({ workbook, sheets, sheetsToProcess, thresholds }) {
+    const findings: Finding[] = [];
+
+    // Hidden sheets; "very hidden" sheets can only be unhidden from the VBA editor
+    const hiddenSheets = sheets.filter(s => s.isHidden);
+    if (hiddenSheets.length > 0) {
+      const veryHidden = new Set(
+        (workbook.Workbook?.Sheets || []).filter(s => s.Hidden === 2).map(s => s.name)
+      );
+      const labels = hiddenSheets.map(s => veryHidden.has(s.name) ? `${s.name} (very hidden)` : s.name);
+      const veryHiddenCount = hiddenSheets.filter(s => veryHidden.has(s.name)).length;
+
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Hidden Content',
+        sheet: hiddenSheets.map(s => s.name).join(', '),
+        description: `${hiddenSheets.length} hidden sheet(s) found: ${labels.join(', ')}`,
+        suggestion: veryHiddenCount > 0
+          ? 'Review hidden sheets for important data that may be overlooked. Very hidden sheets do not appear in the Unhide dialog and can only be shown from the VBA editor (sheet Visible property).'
+          : 'Review hidden sheets for important data that may be overlooked.',
+      });
+    }
+
+    // Hidden rows and columns that contain values
+    for (const sheetName of sheetsToProcess) {
+      const worksheet = workbook.Sheets[sheetName];
+      if (!worksheet['!ref']) continue;
+      const range = XLSX.utils.decode_range(worksheet['!ref']);
+      const maxRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET - 1);
+      const maxCol = Math.min(range.e.c, range.s.c + MAX_COLS_PER_SHEET - 1);
+
+      const rowInfo = worksheet['!rows'] || [];
+      const colInfo = worksheet['!cols'] || [];
+      const hiddenRows: number[] = [];
+      const hiddenCols: number[] = [];
+      let hiddenRowCells = 0;
+      let hiddenColCells = 0;
+
+      const hasValue = (r: number, c: number) => {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+        return !!cell && cell.v !== undefined && cell.v !== '';
+      };
+
+      for (let row = range.s.r; row <= maxRow; row++) {
+        if (!isHiddenRow(rowInfo[row])) continue;
+        let filled = 0;
+        for (let col = range.s.c; col <= maxCol; col++) {
+          if (hasValue(row, col)) filled++;
+        }
+        if (filled > 0) {
+          hiddenRows.push(row);
+          hiddenRowCells += filled;
+        }
+      }
+
+      for (let col = range.s.c; col <= maxCol; col++) {
+        if (!isHiddenColumn(colInfo[col])) continue;
+        let filled = 0;
+        for (let row = range.s.r; row <= maxRow; row++) {
+          if (hasValue(row, col)) filled++;
+        }
+        if (filled > 0) {
+          hiddenCols.push(col);
+          hiddenColCells += filled;
+        }
+      }
+
+      if (hiddenRows.length > 0) {
+        const refs = toRuns(hiddenRows).map(([s, e]) => `${s + 1}:${e + 1}`);
+        const filtered = worksheet['!autofilter'] ? ' Some may be rows filtered out by the AutoFilter.' : '';
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Hidden Content',
+          sheet: sheetName,
+          cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+          rowNumbers: hiddenRows.map(r => r + 1),
+          affectedCells: hiddenRowCells,
+          description: `${hiddenRows.length} hidden row(s) contain data: rows ${formatRefList(refs, thresholds.maxDisplayRefs)}.${filtered}`,
+          suggestion: 'Unhide these rows and confirm their values belong in totals, lookups and exports that include them.',
+        });
+      }
+
+      if (hiddenCols.length > 0) {
+        const refs = toRuns(hiddenCols).map(([s, e]) => `${getColumnLetter(s)}:${getColumnLetter(e)}`);
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Hidden Content',
+          sheet: sheetName,
+          cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+          affectedCells: hiddenColCells,
+          description: `${hiddenCols.length} hidden or zero-width column(s) contain data: columns ${formatRefList(refs, thresholds.maxDisplayRefs)}`,
+          suggestion: 'Unhide these columns (or widen them) and review the values they hold before sharing or importing the sheet.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * Check Registry
+ * Ordered list of analyzer checks. Both the preview and the full analysis
+ * enumerate this list, so adding, removing or reordering a check here is
+ * all that is needed to change what runs.
+ */
+
+import type { CheckDefinition, CheckPreviewContext } from './types';
+import { workbookIntegrityCheck } from './workbook-integrity';
+import { hiddenContentCheck } from './hidden-content';
+import { headerQualityCheck } from './header-quality';
+import { mergedCellsCheck } from './merged-cells';
+import { emptyDataCheck } from './empty-data';
+import { formulaErrorsCheck } from './formula-errors';
+import { formulaConsistencyCheck } from './formula-consistency';
+import { formulaDependenciesCheck } from './formula-dependencies';
+import { volatileFunctionsCheck } from './volatile-functions';
+import { dataTypeAnomaliesCheck } from './data-type-anomalies';
+import { numericOutliersCheck } from './numeric-outliers';
+import { dateAmbiguityCheck } from './date-ambiguity';
+import { duplicateKeysCheck } from './duplicate-keys';
+import { duplicateRowsCheck } from './duplicate-rows';
+import { referentialIntegrityCheck } from './referential-integrity';
+import { csvStructureCheck } from './csv-structure';
+import { formatIntegrityCheck } from './format-integrity';
+import { externalLinksCheck } from './external-links';
+import { definedNamesCheck } from './defined-names';
+
+export type {
+  CheckDefinition,
+  WorkbookCheckDefinition,
+  SheetCheckDefinition,
+  WorkbookCheckContext,
+  SheetCheckContext,
+  CheckPreviewContext,
+  KeyColumnSelection,
+  SpreadsheetSource,
+} from './types';
+
+export const CHECK_REGISTRY: CheckDefinition[] = [
+  workbookIntegrityCheck,
+  formatIntegrityCheck,
+  csvStructureCheck,
+  hiddenContentCheck,
+  externalLinksCheck,
+  definedNamesCheck,
+  headerQualityCheck,
+  mergedCellsCheck,
+  emptyDataCheck,
+  formulaErrorsCheck,
+  formulaDependenciesCheck,
+  formulaConsistencyCheck,
+  volatileFunctionsCheck,
+  dataTypeAnomaliesCheck,
+  numericOutliersCheck,
+  dateAmbiguityCheck,
+  duplicateKeysCheck,
+  duplicateRowsCheck,
+  referentialIntegrityCheck,
+];
+
+/**
+ * Look up a registered check by id
+ */
+export function getCheck(id: string): CheckDefinition | undefined {
+  return CHECK_REGISTRY.find(check => check.id === id);
+}
+
+/**
+ * Titles of the checks that apply to a workbook, in run order
+ */
+export function getPreviewCheckTitles(ctx: CheckPreviewContext): string[] {
+  return CHECK_REGISTRY
+    .filter(check => !check.appliesTo || check.appliesTo(ctx))
+    .map(check => check.title);
+}
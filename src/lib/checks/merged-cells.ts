@@ -0,0 +1,74 @@
+/**
+ * Merged Cells Check
+ * Reports merged ranges inside the header row(s) or data body of a table;
+ * title banners merged above the detected header are ignored
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { formatRefList } from './helpers';
+
+export const mergedCellsCheck: SheetCheckDefinition = {
+  id: 'merged-cells',
+  title: 'Merged cells inside data regions',
+  category: 'Merged Cells',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  run({ worksheet, sheetName, limitedRange: range, header, thresholds }) {
+    const merges = worksheet['!merges'] || [];
+    if (merges.length === 0) return [];
+
+    const headerMerges: XLSX.Range[] = [];
+    const bodyMerges: XLSX.Range[] = [];
+
+    for (const merge of merges) {
+      // Title banners above the header are fine
+      if (merge.e.r < header.firstRow || merge.s.r > range.e.r) continue;
+      if (merge.e.c < range.s.c || merge.s.c > range.e.c) continue;
+      if (merge.s.r <= header.lastRow) {
+        headerMerges.push(merge);
+      } else {
+        bodyMerges.push(merge);
+      }
+    }
+
+    const findings: Finding[] = [];
+    const area = (list: XLSX.Range[]) =>
+      list.reduce((sum, m) => sum + (m.e.r - m.s.r + 1) * (m.e.c - m.s.c + 1), 0);
+
+    if (headerMerges.length > 0) {
+      const refs = headerMerges.map(m => XLSX.utils.encode_range(m));
+      const headerRows = header.lastRow > header.firstRow
+        ? `rows ${header.firstRow + 1}-${header.lastRow + 1}`
+        : `row ${header.lastRow + 1}`;
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Merged Cells',
+        sheet: sheetName,
+        cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+        affectedCells: area(headerMerges),
+        description: `${refs.length} merged range(s) in the header (${headerRows}): ${formatRefList(refs, thresholds.maxDisplayRefs)}`,
+        suggestion: 'Unmerge header cells and give every column its own header. Use "Center Across Selection" if the layout must be kept.',
+      });
+    }
+
+    if (bodyMerges.length > 0) {
+      const refs = bodyMerges.map(m => XLSX.utils.encode_range(m));
+      findings.push({
+        id: uuidv4(),
+        severity: 'warning',
+        category: 'Merged Cells',
+        sheet: sheetName,
+        cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+        affectedCells: area(bodyMerges),
+        description: `${refs.length} merged range(s) inside the data: ${formatRefList(refs, thresholds.maxDisplayRefs)}`,
+        suggestion: 'Unmerge these cells and repeat the value in every row. Merged data cells break sorting, filtering and imports, which read only the top-left cell.',
+      });
+    }
+
+    return findings;
+  },
+};
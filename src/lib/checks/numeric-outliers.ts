@@ -0,0 +1,199 @@
+/**
+ * Numeric Outliers Check
+ * Flags values far outside a numeric column's distribution (robust z-score
+ * and IQR fences), likely unit mistakes (×100 or ×1000 the median), and
+ * negative values in otherwise non-negative columns. Totals rows and
+ * formulas aggregating the column are left out
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { MAX_ROWS_PER_SHEET } from '../limits';
+import { parseFunctionCalls, parseReferences } from '../formula';
+import { formatRefList, getColumnLetter, getHeaderLabel } from './helpers';
+
+// Values beyond this many IQRs outside the quartiles are outliers (with the z-score)
+const IQR_FENCE = 3;
+// Scale factors that suggest a unit mistake (cents vs. units, grams vs. kilograms)
+const UNIT_FACTORS = [100, 1000];
+// How close (in log10 steps) a value's ratio to the median must be to a factor
+const UNIT_FACTOR_TOLERANCE = 0.15;
+// Functions a totals row uses to aggregate the column above it
+const AGGREGATE_FUNCTIONS = ['SUM', 'SUBTOTAL', 'AGGREGATE', 'AVERAGE', 'COUNT', 'COUNTA', 'MIN', 'MAX'];
+// Labels of totals rows: "Total", "Grand Total", "Subtotal", "Sum"
+const TOTAL_LABEL = /^(grand\s+|sub-?\s?)?totals?\b|^sum\b/i;
+
+interface NumericValue {
+  value: number;
+  row: number;
+  ref: string;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const next = sorted[base + 1] ?? sorted[base];
+  return sorted[base] + (pos - base) * (next - sorted[base]);
+}
+
+/**
+ * Scale factor relating a value to the median, e.g. "×100" or "÷1000"
+ */
+function getUnitFactor(value: number, median: number): string | null {
+  if (median === 0 || value === 0 || Math.sign(value) !== Math.sign(median)) return null;
+  const ratio = Math.log10(value / median);
+  for (const factor of UNIT_FACTORS) {
+    const steps = Math.log10(factor);
+    if (Math.abs(ratio - steps) < UNIT_FACTOR_TOLERANCE) return `×${factor}`;
+    if (Math.abs(ratio + steps) < UNIT_FACTOR_TOLERANCE) return `÷${factor}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a formula aggregates a range in its own column, e.g. =SUM(C2:C13)
+ */
+function aggregatesColumn(formula: string, col: number): boolean {
+  if (!parseFunctionCalls(formula).some(call => AGGREGATE_FUNCTIONS.includes(call.name))) return false;
+  return parseReferences(formula).some(r =>
+    r.isRange && !r.sheet && r.from.col !== undefined && r.from.col <= col && col <= (r.to.col ?? r.from.col)
+  );
+}
+
+/**
+ * Whether any text cell of a row labels it as a totals row
+ */
+function isTotalRow(worksheet: XLSX.WorkSheet, row: number, range: XLSX.Range): boolean {
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+    if (cell && cell.t === 's' && TOTAL_LABEL.test(String(cell.v).trim())) return true;
+  }
+  return false;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatValues(values: NumericValue[], limit: number): string {
+  const shown = values.slice(0, limit).map(v => `${v.value} (row ${v.row})`);
+  return shown.join(', ') + (values.length > limit ? ` and ${values.length - limit} more` : '');
+}
+
+export const numericOutliersCheck: SheetCheckDefinition = {
+  id: 'numeric-outliers',
+  title: 'Numeric outlier detection',
+  category: 'Numeric Outliers',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  perRegion: true,
+  run({ worksheet, sheetName, limitedRange: range, header, thresholds }) {
+    const findings: Finding[] = [];
+    const maxDataRow = Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET);
+    const totalRows = new Set<number>();
+    for (let row = header.lastRow + 1; row <= maxDataRow; row++) {
+      if (isTotalRow(worksheet, row, range)) totalRows.add(row);
+    }
+
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const column = getHeaderLabel(header, range, col) || getColumnLetter(col);
+
+      // Numeric, non-date cells of the column, without totals
+      const values: NumericValue[] = [];
+      let filled = 0;
+      for (let row = header.lastRow + 1; row <= maxDataRow; row++) {
+        const ref = XLSX.utils.encode_cell({ r: row, c: col });
+        const cell = worksheet[ref];
+        if (!cell || cell.v === undefined || cell.v === '') continue;
+        if (totalRows.has(row) || (cell.f && aggregatesColumn(cell.f, col))) continue;
+        filled++;
+        if (cell.t === 'n' && !(cell.z && XLSX.SSF.is_date(cell.z))) {
+          values.push({ value: cell.v as number, row: row + 1, ref });
+        }
+      }
+
+      if (values.length < thresholds.minColumnValues || values.length <= filled * thresholds.mixedTypeNumericRatio) continue;
+
+      // Sign flips: a few negatives among non-negative values
+      const negatives = values.filter(v => v.value < 0);
+      const isSignFlip = negatives.length > 0 && negatives.length <= values.length * thresholds.signFlipRatio;
+      if (isSignFlip) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Numeric Outliers',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(negatives.map(v => v.ref), thresholds.maxDisplayRefs),
+          rowNumbers: negatives.map(v => v.row),
+          affectedCells: negatives.length,
+          description: `${negatives.length} negative value(s) in a column that is otherwise zero or positive: ${formatValues(negatives, thresholds.maxDisplayRefs)}`,
+          suggestion: 'Check whether the sign is intended (e.g. a return or correction) or a data entry mistake such as a negative quantity.',
+        });
+      }
+
+      // Robust spread: median absolute deviation, else mean absolute deviation
+      const sorted = values.map(v => v.value).sort((a, b) => a - b);
+      const median = quantile(sorted, 0.5);
+      const deviations = sorted.map(v => Math.abs(v - median)).sort((a, b) => a - b);
+      const mad = quantile(deviations, 0.5);
+      const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / deviations.length;
+      if (mad === 0 && meanDeviation === 0) continue;
+      const robustZ = (v: number) =>
+        mad > 0 ? 0.6745 * (v - median) / mad : (v - median) / (1.2533 * meanDeviation);
+
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+      const outsideFences = (v: number) => iqr === 0 || v < q1 - IQR_FENCE * iqr || v > q3 + IQR_FENCE * iqr;
+
+      const outliers = values.filter(v =>
+        Math.abs(robustZ(v.value)) > thresholds.outlierZScore &&
+        outsideFences(v.value) &&
+        !(isSignFlip && v.value < 0)
+      );
+      if (outliers.length === 0) continue;
+
+      // Outliers that are the median scaled by 100 or 1000 look like unit mistakes
+      const unitMistakes = outliers
+        .map(v => ({ ...v, factor: getUnitFactor(v.value, median) }))
+        .filter((v): v is NumericValue & { factor: string } => v.factor !== null);
+      const others = outliers.filter(v => !unitMistakes.some(u => u.ref === v.ref));
+
+      if (unitMistakes.length > 0) {
+        const factors = Array.from(new Set(unitMistakes.map(v => v.factor)));
+        findings.push({
+          id: uuidv4(),
+          severity: 'warning',
+          category: 'Numeric Outliers',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(unitMistakes.map(v => v.ref), thresholds.maxDisplayRefs),
+          rowNumbers: unitMistakes.map(v => v.row),
+          affectedCells: unitMistakes.length,
+          description: `${unitMistakes.length} value(s) are about ${factors.join(' or ')} the column median of ${round(median)}, suggesting a unit mistake: ${formatValues(unitMistakes, thresholds.maxDisplayRefs)}`,
+          suggestion: 'Check whether these values were entered in a different unit (e.g. cents instead of dollars, grams instead of kilograms) and convert them.',
+        });
+      }
+
+      if (others.length > 0) {
+        findings.push({
+          id: uuidv4(),
+          severity: 'info',
+          category: 'Numeric Outliers',
+          sheet: sheetName,
+          column,
+          cellRef: formatRefList(others.map(v => v.ref), thresholds.maxDisplayRefs),
+          rowNumbers: others.map(v => v.row),
+          affectedCells: others.length,
+          description: `${others.length} value(s) far outside the column's typical range (median ${round(median)}, middle half ${round(q1)} to ${round(q3)}): ${formatValues(others, thresholds.maxDisplayRefs)}`,
+          suggestion: 'Verify these values; extreme values are often typos (extra digits, misplaced decimal points) and distort totals and averages.',
+        });
+      }
+    }
+
+    return findings;
+  },
+};
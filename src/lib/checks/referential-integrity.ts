@@ -0,0 +1,156 @@
+/**
+ * Referential Integrity Check
+ * For each cross-sheet relationship (declared in the profile or inferred
+ * from key columns), reports values with no matching parent key, parent
+ * keys never referenced, and values stored with a different type than
+ * the key they match
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding } from '../types';
+import type { WorkbookCheckDefinition } from './types';
+import { readColumnValues, resolveRelationships, type Relationship } from '../relationships';
+
+// Example values listed per finding
+const MAX_EXAMPLES = 5;
+
+function describeType(cell: XLSX.CellObject): string {
+  if (cell.t === 'n') return cell.z && XLSX.SSF.is_date(cell.z) ? 'dates' : 'numbers';
+  if (cell.t === 'd') return 'dates';
+  if (cell.t === 'b') return 'booleans';
+  return 'text';
+}
+
+function describeRelationship(r: Relationship): string {
+  return `"${r.sheet}"!${r.column} -> "${r.parentSheet}"!${r.parentColumn}${r.inferred ? ' (inferred)' : ''}`;
+}
+
+/**
+ * Group rows by value and list the first few as examples: "C-9" (rows 4, 7)
+ */
+function formatExamples(entries: { value: string; row: number }[]): string {
+  const rowsByValue = new Map<string, number[]>();
+  entries.forEach(({ value, row }) => rowsByValue.set(value, [...(rowsByValue.get(value) || []), row]));
+  const examples = Array.from(rowsByValue.entries())
+    .slice(0, MAX_EXAMPLES)
+    .map(([value, rows]) => `"${value}" (row${rows.length > 1 ? 's' : ''} ${rows.slice(0, 3).join(', ')}${rows.length > 3 ? '...' : ''})`);
+  return examples.join('; ') + (rowsByValue.size > MAX_EXAMPLES ? ` and ${rowsByValue.size - MAX_EXAMPLES} more` : '');
+}
+
+function checkRelationship(
+  relationship: Relationship,
+  childValues: ReturnType<typeof readColumnValues>,
+  parentValues: ReturnType<typeof readColumnValues>
+): Finding[] {
+  const findings: Finding[] = [];
+  const label = describeRelationship(relationship);
+  const parentTypes = new Map(parentValues.map(({ value, cell }) => [value, describeType(cell)]));
+
+  // Values with no parent key
+  const orphans = childValues.filter(({ value }) => !parentTypes.has(value));
+  if (orphans.length > 0) {
+    findings.push({
+      id: uuidv4(),
+      // Inferred relationships may be coincidental, so their orphans are less certain
+      severity: relationship.inferred ? 'warning' : 'error',
+      category: 'Referential Integrity',
+      sheet: relationship.sheet,
+      column: relationship.column,
+      rowNumbers: orphans.map(o => o.row),
+      affectedCells: orphans.length,
+      description: `${orphans.length} row(s) reference keys that do not exist (${label}): ${formatExamples(orphans)}`,
+      suggestion: `Add the missing keys to "${relationship.parentSheet}" or correct the values in "${relationship.sheet}"; rows pointing at nothing are lost in lookups and joins.`,
+    });
+  }
+
+  // Matching values stored as a different type (e.g. text "1001" against number 1001)
+  const mismatched = childValues.filter(({ value, cell }) => {
+    const parentType = parentTypes.get(value);
+    return parentType !== undefined && parentType !== describeType(cell);
+  });
+  if (mismatched.length > 0) {
+    const childTypes = Array.from(new Set(mismatched.map(m => describeType(m.cell))));
+    const parentTypeList = Array.from(new Set(mismatched.map(m => parentTypes.get(m.value)!)));
+    findings.push({
+      id: uuidv4(),
+      severity: 'warning',
+      category: 'Referential Integrity',
+      sheet: relationship.sheet,
+      column: relationship.column,
+      rowNumbers: mismatched.map(m => m.row),
+      affectedCells: mismatched.length,
+      description: `${mismatched.length} value(s) stored as ${childTypes.join('/')} match keys stored as ${parentTypeList.join('/')} (${label}): ${formatExamples(mismatched)}`,
+      suggestion: 'Store both sides of the relationship with the same type; VLOOKUP, XLOOKUP and joins treat the number 1001 and the text "1001" as different values.',
+    });
+  }
+
+  // Parent keys nothing refers to
+  const referenced = new Set(childValues.map(v => v.value));
+  const unused = parentValues.filter(({ value }) => !referenced.has(value));
+  const unusedKeys = new Set(unused.map(u => u.value)).size;
+  if (unused.length > 0 && childValues.length > 0) {
+    findings.push({
+      id: uuidv4(),
+      severity: 'info',
+      category: 'Referential Integrity',
+      sheet: relationship.parentSheet,
+      column: relationship.parentColumn,
+      rowNumbers: unused.map(u => u.row),
+      affectedCells: unused.length,
+      description: `${unusedKeys} of ${new Set(parentValues.map(v => v.value)).size} parent key(s) are never referenced (${label}): ${formatExamples(unused)}`,
+      suggestion: 'Unreferenced keys may be fine (e.g. customers without orders), but can also point to references typed differently or records that should have been removed.',
+    });
+  }
+
+  return findings;
+}
+
+export const referentialIntegrityCheck: WorkbookCheckDefinition = {
+  id: 'referential-integrity',
+  title: 'Cross-sheet referential integrity',
+  category: 'Referential Integrity',
+  defaultSeverity: 'error',
+  scope: 'workbook',
+  appliesTo: ({ sheets }) => sheets.length > 1,
+  run({ workbook, sheetsToProcess, headers, regions, selectedKeyColumns, getKeyCandidates, relationships: declarations }) {
+    if (sheetsToProcess.length < 2 && declarations.length === 0) return [];
+
+    const { relationships, unresolved } = resolveRelationships(
+      workbook,
+      headers,
+      regions,
+      sheetsToProcess,
+      declarations,
+      selectedKeyColumns,
+      getKeyCandidates()
+    );
+    const findings: Finding[] = unresolved.map(({ declaration, reason }) => ({
+      id: uuidv4(),
+      severity: 'info',
+      category: 'Referential Integrity',
+      sheet: declaration.sheet,
+      column: declaration.column,
+      description: `Relationship "${declaration.sheet}"!${declaration.column} -> "${declaration.parentSheet}"!${declaration.parentColumn} was not checked: ${reason}.`,
+      suggestion: 'Check the sheet and column names in the analysis profile; columns can be given by header label or column letter.',
+    }));
+
+    for (const relationship of relationships) {
+      const childValues = readColumnValues(
+        workbook.Sheets[relationship.sheet],
+        headers.get(relationship.sheet)!,
+        relationship.columnIndex,
+        regions.get(relationship.sheet)
+      );
+      const parentValues = readColumnValues(
+        workbook.Sheets[relationship.parentSheet],
+        headers.get(relationship.parentSheet)!,
+        relationship.parentColumnIndex,
+        regions.get(relationship.parentSheet)
+      );
+      findings.push(...checkRelationship(relationship, childValues, parentValues));
+    }
+
+    return findings;
+  },
+};
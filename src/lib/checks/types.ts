@@ -0,0 +1,111 @@
+/**
+ * Check Module Types
+ * Shared contract for analyzer check modules
+ */
+
+import type * as XLSX from 'xlsx';
+import type {
+  Finding,
+  SheetInfo,
+  ColumnCandidate,
+  Severity,
+  AnalysisThresholds,
+  SpreadsheetFormat,
+  KeyColumnSelection,
+  RelationshipDeclaration,
+} from '../types';
+import type { CsvParseResult } from '../csv';
+import type { DependencyGraph } from '../dependency-graph';
+import type { HeaderDetection } from '../header-detection';
+import type { TableRegion } from '../table-regions';
+
+export type { KeyColumnSelection };
+
+/**
+ * Where the workbook came from (original file format and parser metadata)
+ */
+export interface SpreadsheetSource {
+  format: SpreadsheetFormat;
+  // Present for delimited text files
+  csv?: CsvParseResult;
+}
+
+/**
+ * Context passed to workbook-level checks (run once per workbook)
+ */
+export interface WorkbookCheckContext {
+  workbook: XLSX.WorkBook;
+  source: SpreadsheetSource;
+  sheets: SheetInfo[];
+  sheetsToProcess: string[];
+  thresholds: AnalysisThresholds;
+  // Formula dependency graph of the processed sheets (built on first use)
+  getDependencyGraph: () => DependencyGraph;
+  // Detected (or overridden) header rows of every sheet
+  headers: Map<string, HeaderDetection>;
+  // Tables of every sheet (empty list for single-table sheets)
+  regions: Map<string, TableRegion[]>;
+  // Keys selected by the user (at most one per sheet)
+  selectedKeyColumns: KeyColumnSelection[];
+  // Key column candidates of every sheet (found on first use)
+  getKeyCandidates: () => ColumnCandidate[];
+  // Cross-sheet foreign keys declared in the profile
+  relationships: RelationshipDeclaration[];
+}
+
+/**
+ * Context passed to sheet-level checks (run once per processed sheet, or
+ * once per table region for checks with perRegion)
+ */
+export interface SheetCheckContext {
+  workbook: XLSX.WorkBook;
+  worksheet: XLSX.WorkSheet;
+  sheetName: string;
+  // Full used range of the sheet
+  range: XLSX.Range;
+  // Used range clipped to processing limits
+  limitedRange: XLSX.Range;
+  // Detected (or overridden) header rows; data starts at header.lastRow + 1
+  header: HeaderDetection;
+  // Table being checked when the sheet holds several tables; range, limitedRange
+  // and header then describe this table only
+  region?: TableRegion;
+  // Key selected for this sheet, if any
+  selectedKeyColumn?: KeyColumnSelection;
+  // Columns (header labels or letters) the duplicate row check compares, from the profile
+  duplicateRowColumns?: string[];
+  thresholds: AnalysisThresholds;
+  getDependencyGraph: () => DependencyGraph;
+}
+
+/**
+ * Context available when building the preview check list
+ */
+export interface CheckPreviewContext {
+  source: SpreadsheetSource;
+  sheets: SheetInfo[];
+  potentialKeyColumns: ColumnCandidate[];
+}
+
+interface BaseCheckDefinition {
+  id: string;
+  title: string;
+  category: string;
+  defaultSeverity: Severity;
+  // Whether the check is listed in the preview for this workbook (default: always)
+  appliesTo?: (ctx: CheckPreviewContext) => boolean;
+}
+
+export interface WorkbookCheckDefinition extends BaseCheckDefinition {
+  scope: 'workbook';
+  run: (ctx: WorkbookCheckContext) => Finding[];
+}
+
+export interface SheetCheckDefinition extends BaseCheckDefinition {
+  scope: 'sheet';
+  // Run once per table region (Excel Table or block between blank rows/columns)
+  perRegion?: boolean;
+  run: (ctx: SheetCheckContext) => Finding[];
+}
+
+export type CheckDefinition = WorkbookCheckDefinition | SheetCheckDefinition;
@@ -0,0 +1,136 @@
+/**
+ * Volatile Functions Check
+ * Counts formulas that use volatile or fragile functions (INDIRECT, OFFSET,
+ * NOW, ...) and lookups over whole-column references
+ */
+
+import * as XLSX from 'xlsx';
+import { v4 as uuidv4 } from 'uuid';
+import type { Finding, Severity } from '../types';
+import type { SheetCheckDefinition } from './types';
+import { parseFunctionCalls, parseReferences } from '../formula';
+import { formatRefList } from './helpers';
+
+interface FunctionRisk {
+  severity: Severity;
+  reason: string;
+  suggestion: string;
+}
+
+const FUNCTION_RISKS: Record<string, FunctionRisk> = {
+  INDIRECT: {
+    severity: 'warning',
+    reason: 'builds references from text, so they break silently when rows, columns or sheets are renamed or moved',
+    suggestion: 'Replace INDIRECT with direct references, INDEX or CHOOSE where possible. It also recalculates on every change.',
+  },
+  OFFSET: {
+    severity: 'warning',
+    reason: 'computes ranges at run time, which hides dependencies and recalculates on every change',
+    suggestion: 'Use INDEX-based ranges (e.g. A1:INDEX(A:A,n)) or Excel Tables instead of OFFSET.',
+  },
+  NOW: {
+    severity: 'info',
+    reason: 'returns a different value on every recalculation',
+    suggestion: 'If a fixed timestamp is needed, enter it as a value (Ctrl+Shift+;). Otherwise make sure results depending on it are not treated as static.',
+  },
+  TODAY: {
+    severity: 'info',
+    reason: 'returns a different value each day',
+    suggestion: 'If the report should reflect a fixed date, enter it as a value or reference a single "as of" input cell.',
+  },
+  RAND: {
+    severity: 'info',
+    reason: 'returns a new random number on every recalculation',
+    suggestion: 'Paste random values as values once generated if the results must be reproducible.',
+  },
+  RANDBETWEEN: {
+    severity: 'info',
+    reason: 'returns a new random number on every recalculation',
+    suggestion: 'Paste random values as values once generated if the results must be reproducible.',
+  },
+  CELL: {
+    severity: 'info',
+    reason: 'is volatile and its result depends on the environment (file path, active cell)',
+    suggestion: 'Avoid CELL in values other workbooks or reports rely on; results differ between machines and sessions.',
+  },
+  INFO: {
+    severity: 'info',
+    reason: 'is volatile and its result depends on the operating environment',
+    suggestion: 'Avoid INFO in values other workbooks or reports rely on; results differ between machines and sessions.',
+  },
+};
+
+// Lookups where a whole-column (or whole-row) range forces a scan of the entire sheet
+const LOOKUP_FUNCTIONS = new Set(['VLOOKUP', 'HLOOKUP', 'LOOKUP', 'XLOOKUP', 'MATCH', 'XMATCH', 'INDEX']);
+
+export const volatileFunctionsCheck: SheetCheckDefinition = {
+  id: 'volatile-functions',
+  title: 'Volatile and fragile function usage',
+  category: 'Formula Risks',
+  defaultSeverity: 'warning',
+  scope: 'sheet',
+  run({ worksheet, sheetName, limitedRange: range, thresholds }) {
+    const usage = new Map<string, string[]>();
+    const wholeColumnLookups: { ref: string; lookup: string; reference: string }[] = [];
+
+    for (let row = range.s.r; row <= range.e.r; row++) {
+      for (let col = range.s.c; col <= range.e.c; col++) {
+        const ref = XLSX.utils.encode_cell({ r: row, c: col });
+        const formula = worksheet[ref]?.f;
+        if (!formula) continue;
+
+        const calls = parseFunctionCalls(formula);
+        for (const name of new Set(calls.map(call => call.name))) {
+          if (!FUNCTION_RISKS[name]) continue;
+          const refs = usage.get(name) || [];
+          refs.push(ref);
+          usage.set(name, refs);
+        }
+
+        const lookups = calls.filter(call => LOOKUP_FUNCTIONS.has(call.name));
+        if (lookups.length === 0) continue;
+        for (const reference of parseReferences(formula)) {
+          if (!reference.wholeColumn && !reference.wholeRow) continue;
+          const lookup = lookups.find(call => call.open < reference.index && reference.index < call.close);
+          if (lookup) {
+            wholeColumnLookups.push({ ref, lookup: lookup.name, reference: reference.text });
+            break;
+          }
+        }
+      }
+    }
+
+    const findings: Finding[] = [];
+
+    for (const [name, refs] of usage) {
+      const risk = FUNCTION_RISKS[name];
+      findings.push({
+        id: uuidv4(),
+        severity: risk.severity,
+        category: 'Formula Risks',
+        sheet: sheetName,
+        cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+        affectedCells: refs.length,
+        description: `${name} used in ${refs.length} formula(s): ${name} ${risk.reason}`,
+        suggestion: risk.suggestion,
+      });
+    }
+
+    if (wholeColumnLookups.length > 0) {
+      const refs = wholeColumnLookups.map(l => l.ref);
+      const shown = wholeColumnLookups.slice(0, 3).map(l => `${l.ref} (${l.lookup} over ${l.reference})`).join(', ');
+      findings.push({
+        id: uuidv4(),
+        severity: 'info',
+        category: 'Formula Risks',
+        sheet: sheetName,
+        cellRef: formatRefList(refs, thresholds.maxDisplayRefs),
+        affectedCells: refs.length,
+        description: `${refs.length} lookup formula(s) use whole-column or whole-row references: ${shown}${wholeColumnLookups.length > 3 ? ` and ${wholeColumnLookups.length - 3} more` : ''}`,
+        suggestion: 'Limit lookup ranges to the data (or use an Excel Table) so lookups do not scan a million rows and pick up stray values below the table.',
+      });
+    }
+
+    return findings;
+  },
+};
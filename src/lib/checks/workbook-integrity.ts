@@ -0,0 +1,27 @@
+/**
+ * Workbook Integrity Check
+ * Verifies the workbook contains at least one worksheet
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { WorkbookCheckDefinition } from './types';
+
+export const workbookIntegrityCheck: WorkbookCheckDefinition = {
+  id: 'workbook-integrity',
+  title: 'Workbook integrity check',
+  category: 'Workbook Integrity',
+  defaultSeverity: 'error',
+  scope: 'workbook',
+  run({ workbook }) {
+    if (workbook.SheetNames.length > 0) return [];
+
+    return [{
+      id: uuidv4(),
+      severity: 'error',
+      category: 'Workbook Integrity',
+      sheet: '-',
+      description: 'No sheets found in workbook',
+      suggestion: 'Ensure the Excel file contains at least one worksheet with data.',
+    }];
+  },
+};
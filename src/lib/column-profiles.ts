@@ -0,0 +1,144 @@
+/**
+ * Column Profiles
+ * Summarises every column's data rows (type, blanks, distinct values,
+ * numeric and date ranges, frequent values) for the report's data dictionary
+ */
+
+import * as XLSX from 'xlsx';
+import type { ColumnProfile, ColumnType } from './types';
+import type { HeaderDetection } from './header-detection';
+import { getColumnLetter, getHeaderLabel } from './checks/helpers';
+
+// Share of non-error values one kind must reach for the column to get that type
+const DOMINANT_TYPE_RATIO = 0.9;
+// Frequent values listed per column
+const TOP_VALUES = 5;
+
+type ValueKind = keyof ColumnProfile['typeCounts'];
+
+function getValueKind(cell: XLSX.CellObject): ValueKind {
+  if (cell.t === 'e') return 'error';
+  if (cell.t === 'b') return 'boolean';
+  if (cell.t === 'd' || (cell.t === 'n' && !!cell.z && XLSX.SSF.is_date(cell.z))) return 'date';
+  if (cell.t === 'n') return 'number';
+  return 'text';
+}
+
+/**
+ * Date cell as an ISO string ("2024-03-01", or "2024-03-01T14:30:00" with a time)
+ */
+function toIsoDate(cell: XLSX.CellObject): string | null {
+  if (cell.v instanceof Date) return cell.v.toISOString().replace(/T00:00:00\.000Z$|\.\d{3}Z$/, '');
+  if (typeof cell.v !== 'number') return null;
+  const date = XLSX.SSF.parse_date_code(cell.v);
+  if (!date) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.y}-${pad(date.m)}-${pad(date.d)}`;
+  return date.H || date.M || date.S ? `${day}T${pad(date.H)}:${pad(date.M)}:${pad(Math.floor(date.S))}` : day;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Profile one column from the first data row to lastRow
+ */
+function profileColumn(worksheet: XLSX.WorkSheet, header: HeaderDetection, col: number, lastRow: number): Omit<ColumnProfile, 'sheet' | 'column' | 'columnLetter'> {
+  const typeCounts: ColumnProfile['typeCounts'] = { number: 0, date: 0, text: 0, boolean: 0, error: 0 };
+  const counts = new Map<string, number>();
+  const numbers: number[] = [];
+  const dates: string[] = [];
+  let nullCount = 0;
+  let maxLength = 0;
+
+  for (let row = header.lastRow + 1; row <= lastRow; row++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })] as XLSX.CellObject | undefined;
+    const text = cell && cell.v !== undefined && cell.v !== null ? String(cell.w ?? cell.v) : '';
+    if (!cell || !text.trim()) {
+      nullCount++;
+      continue;
+    }
+
+    const kind = getValueKind(cell);
+    typeCounts[kind]++;
+    counts.set(text, (counts.get(text) || 0) + 1);
+    maxLength = Math.max(maxLength, text.length);
+    if (kind === 'number') numbers.push(cell.v as number);
+    if (kind === 'date') {
+      const iso = toIsoDate(cell);
+      if (iso) dates.push(iso);
+    }
+  }
+
+  const typed = typeCounts.number + typeCounts.date + typeCounts.text + typeCounts.boolean;
+  // A column of only error values has no dominant type
+  const dominant = typed > 0
+    ? (['number', 'date', 'text', 'boolean'] as const).find(kind => typeCounts[kind] >= typed * DOMINANT_TYPE_RATIO)
+    : undefined;
+  const inferredType: ColumnType = counts.size === 0 ? 'empty' : dominant || 'mixed';
+
+  const profile: Omit<ColumnProfile, 'sheet' | 'column' | 'columnLetter'> = {
+    inferredType,
+    typeCounts,
+    nullCount,
+    distinctCount: counts.size,
+    topValues: Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count })),
+    maxLength,
+  };
+
+  if (numbers.length > 0) {
+    const sorted = numbers.slice().sort((a, b) => a - b);
+    profile.numeric = {
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: round(sorted.reduce((sum, n) => sum + n, 0) / sorted.length),
+      median: round(median(sorted)),
+    };
+  }
+  if (dates.length > 0) {
+    const sorted = dates.slice().sort();
+    profile.dates = { min: sorted[0], max: sorted[sorted.length - 1] };
+  }
+
+  return profile;
+}
+
+/**
+ * Profile every labelled or non-empty column of a sheet (or of one table
+ * when `region` is given) within the processing range
+ */
+export function profileColumns(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  range: XLSX.Range,
+  limitedRange: XLSX.Range,
+  header: HeaderDetection,
+  region?: string
+): ColumnProfile[] {
+  const profiles: ColumnProfile[] = [];
+
+  for (let col = limitedRange.s.c; col <= limitedRange.e.c; col++) {
+    const label = getHeaderLabel(header, range, col);
+    const profile = profileColumn(worksheet, header, col, limitedRange.e.r);
+    if (!label && profile.inferredType === 'empty') continue;
+
+    profiles.push({
+      sheet: sheetName,
+      ...(region ? { region } : {}),
+      column: label || getColumnLetter(col),
+      columnLetter: getColumnLetter(col),
+      ...profile,
+    });
+  }
+
+  return profiles;
+}
@@ -0,0 +1,314 @@
+/**
+ * Delimited Text Parsing
+ * Detects encoding, delimiter and quote style of CSV/TSV files and
+ * converts them into a workbook the analyzer can inspect
+ */
+
+import * as XLSX from 'xlsx';
+import iconv from 'iconv-lite';
+
+// Delimiters tried during detection, in order of preference on ties
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+// Number of non-empty lines sampled for dialect detection
+const SAMPLE_LINES = 50;
+
+// Plain decimal numbers (no thousands separators, no leading zeros)
+const NUMBER_PATTERN = /^[-+]?(?:0|[1-9]\d*)?(?:\.\d+)?(?:[eE][-+]?\d+)?$/;
+
+export interface CsvDialect {
+  encoding: string;
+  hasBom: boolean;
+  delimiter: string;
+  // null when no field in the file is quoted
+  quoteChar: '"' | "'" | null;
+  lineEndings: { crlf: number; lf: number; cr: number };
+}
+
+export interface CsvParseResult {
+  dialect: CsvDialect;
+  rows: string[][];
+  // Field count of the header row
+  expectedFieldCount: number;
+  // Non-blank rows whose field count differs from the header (1-indexed)
+  raggedRows: { row: number; fieldCount: number }[];
+}
+
+/**
+ * UTF-16 without BOM: ASCII text leaves every other byte zero
+ */
+export function detectBomlessUtf16(buffer: Buffer): 'utf-16le' | 'utf-16be' | null {
+  const sample = buffer.subarray(0, 1024);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros / half > 0.3 && evenZeros / half < 0.05) return 'utf-16le';
+  if (half > 0 && evenZeros / half > 0.3 && oddZeros / half < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Detect text encoding from BOM or byte content
+ */
+function detectEncoding(buffer: Buffer): { encoding: string; hasBom: boolean } {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { encoding: 'utf-8', hasBom: true };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { encoding: 'utf-16le', hasBom: true };
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return { encoding: 'utf-16be', hasBom: true };
+  }
+
+  const utf16 = detectBomlessUtf16(buffer);
+  if (utf16) return { encoding: utf16, hasBom: false };
+
+  // Valid UTF-8 (plain ASCII included), otherwise assume Windows-1252
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    return { encoding: 'windows-1252', hasBom: false };
+  }
+}
+
+/**
+ * Count line ending styles outside of quoted fields
+ */
+function countLineEndings(text: string, quoteChar: string | null): CsvDialect['lineEndings'] {
+  const counts = { crlf: 0, lf: 0, cr: 0 };
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoteChar && ch === quoteChar) {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && ch === '\r') {
+      if (text[i + 1] === '\n') {
+        counts.crlf++;
+        i++;
+      } else {
+        counts.cr++;
+      }
+    } else if (!inQuotes && ch === '\n') {
+      counts.lf++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Split delimited text into rows of fields
+ */
+function parseDelimited(
+  text: string,
+  delimiter: string,
+  quoteChar: string | null,
+  maxRows: number = Infinity
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === quoteChar) {
+        if (text[i + 1] === quoteChar) {
+          // Escaped quote ("")
+          field += ch;
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (quoteChar && ch === quoteChar && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      endRow();
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  // Last row without trailing newline
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every(field => field.trim() === '');
+}
+
+/**
+ * Pick the delimiter giving the most consistent field count across sample lines
+ */
+function detectDelimiter(text: string, preferred?: string): string {
+  let best = preferred || CANDIDATE_DELIMITERS[0];
+  let bestScore = 0;
+
+  const candidates = preferred
+    ? [preferred, ...CANDIDATE_DELIMITERS.filter(d => d !== preferred)]
+    : CANDIDATE_DELIMITERS;
+
+  for (const delimiter of candidates) {
+    const rows = parseDelimited(text, delimiter, '"', SAMPLE_LINES * 2)
+      .filter(row => !isBlankRow(row))
+      .slice(0, SAMPLE_LINES);
+    if (rows.length === 0) continue;
+
+    // Most common field count
+    const countFrequency = new Map<number, number>();
+    for (const row of rows) {
+      countFrequency.set(row.length, (countFrequency.get(row.length) || 0) + 1);
+    }
+    let modeCount = 1;
+    let modeFrequency = 0;
+    for (const [count, frequency] of countFrequency) {
+      if (frequency > modeFrequency || (frequency === modeFrequency && count > modeCount)) {
+        modeCount = count;
+        modeFrequency = frequency;
+      }
+    }
+    if (modeCount < 2) continue;
+
+    // Consistency first, more columns breaks near-ties
+    const score = modeFrequency / rows.length + Math.min(modeCount, 50) / 1000;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Detect whether fields are quoted with double or single quotes. Single
+ * quotes also appear in text (O'Brien), so they only count when they wrap
+ * whole fields on most lines and appear nowhere else
+ */
+function detectQuoteChar(text: string, delimiter: string): CsvDialect['quoteChar'] {
+  const escaped = delimiter.replace(/[|\\^$.*+?()[\]{}]/g, '\\$&');
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+  const quotedField = (quote: string) => new RegExp(`(^|${escaped})${quote}[^${quote}]*${quote}(?=${escaped}|$)`, 'g');
+  const countQuoted = (line: string, quote: string) => (line.match(quotedField(quote)) || []).length;
+
+  const doubleQuoted = lines.reduce((sum, line) => sum + countQuoted(line, '"'), 0);
+  if (doubleQuoted > 0) return '"';
+
+  const singleQuotedLines = lines.filter(line => countQuoted(line, "'") > 0).length;
+  const strayApostrophes = lines.some(line => line.replace(quotedField("'"), '$1').includes("'"));
+  if (singleQuotedLines > 0 && singleQuotedLines >= lines.length / 2 && !strayApostrophes) return "'";
+  return null;
+}
+
+/**
+ * Detect dialect and parse a delimited text file
+ */
+export function parseCsv(buffer: Buffer, fileName: string = ''): CsvParseResult {
+  const { encoding, hasBom } = detectEncoding(buffer);
+  const text = iconv.decode(buffer, encoding, { stripBOM: true });
+
+  const preferred = fileName.toLowerCase().endsWith('.tsv') ? '\t'
+    : fileName.toLowerCase().endsWith('.csv') ? ','
+    : undefined;
+  const delimiter = detectDelimiter(text, preferred);
+  const quoteChar = detectQuoteChar(text, delimiter);
+
+  const rows = parseDelimited(text, delimiter, quoteChar || '"');
+  const expectedFieldCount = rows.length > 0 ? rows[0].length : 0;
+  const raggedRows: CsvParseResult['raggedRows'] = [];
+  rows.forEach((row, index) => {
+    if (!isBlankRow(row) && row.length !== expectedFieldCount) {
+      raggedRows.push({ row: index + 1, fieldCount: row.length });
+    }
+  });
+
+  return {
+    dialect: {
+      encoding,
+      hasBom,
+      delimiter,
+      quoteChar,
+      lineEndings: countLineEndings(text, quoteChar || '"'),
+    },
+    rows,
+    expectedFieldCount,
+    raggedRows,
+  };
+}
+
+/**
+ * Convert a raw field into a cell value (plain numbers become numeric cells)
+ */
+function toCellValue(field: string): string | number | null {
+  const trimmed = field.trim();
+  if (trimmed === '') return null;
+  if (/\d/.test(trimmed) && NUMBER_PATTERN.test(trimmed)) return Number(trimmed);
+  return field;
+}
+
+/**
+ * Get a valid sheet name from a file name
+ */
+function getSheetName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/[\\/?*[\]:]/g, '_').trim();
+  return (base || 'Sheet1').slice(0, 31);
+}
+
+/**
+ * Build a single-sheet workbook from parsed CSV rows
+ */
+export function csvToWorkbook(parsed: CsvParseResult, fileName: string = ''): XLSX.WorkBook {
+  const data = parsed.rows.map(row => row.map(toCellValue));
+  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, getSheetName(fileName));
+  return workbook;
+}
+
+/**
+ * Human-readable delimiter name
+ */
+export function describeDelimiter(delimiter: string): string {
+  const names: Record<string, string> = {
+    ',': 'comma',
+    '\t': 'tab',
+    ';': 'semicolon',
+    '|': 'pipe',
+  };
+  return names[delimiter] || `"${delimiter}"`;
+}
@@ -0,0 +1,356 @@
+/**
+ * Formula Dependency Graph
+ * Links every formula cell to the cells it references (including
+ * cross-sheet references) so checks can follow precedent and dependent chains.
+ * Each distinct range is one node shared by every formula using it, linked to
+ * the formula and error cells inside it (constants cannot carry a cycle or error)
+ */
+
+import * as XLSX from 'xlsx';
+import { parseReferences, type FormulaReference } from './formula';
+import { MAX_ROWS_PER_SHEET, MAX_COLS_PER_SHEET } from './limits';
+
+// Ranges larger than this (after clipping to the used range) are not expanded
+const MAX_RANGE_CELLS = 20000;
+// Cells scanned while expanding ranges, and edges stored, across the whole graph
+const MAX_SCANNED_CELLS = 2000000;
+const MAX_GRAPH_EDGES = 500000;
+
+export interface GraphCell {
+  key: string;
+  sheet: string;
+  ref: string;
+  row: number;
+  col: number;
+}
+
+export interface ResolvedReference {
+  // Formula cell the reference appears in
+  from: GraphCell;
+  reference: FormulaReference;
+  // Target sheet name as it exists in the workbook (undefined if missing or external)
+  targetSheet?: string;
+  // Target range, clipped to what the formula can address
+  range?: XLSX.Range;
+}
+
+export interface DependencyGraph {
+  cells: Map<string, GraphCell>;
+  // Formula cell key -> keys of non-empty cells and range nodes it references
+  precedents: Map<string, string[]>;
+  // Range node key ('Sheet'!A2:A100) -> formula and error cells inside the range
+  ranges: Map<string, string[]>;
+  // Cell or range node key -> keys of formula cells and range nodes referencing it
+  dependents: Map<string, string[]>;
+  // Every reference found, for checks that inspect targets directly
+  references: ResolvedReference[];
+  // Used range of each processed sheet
+  usedRanges: Map<string, XLSX.Range>;
+  // Error value (#REF!, #N/A, ...) of every graph cell that holds one
+  errors: Map<string, string>;
+  // Whether ranges were left unexpanded once the graph reached its size limits
+  truncated: boolean;
+}
+
+export interface ErrorChains {
+  // Cells where an error originates -> error cells downstream of them
+  roots: Map<string, string[]>;
+  // Error cells whose error comes from a precedent
+  propagated: Set<string>;
+}
+
+// Error chains are computed once per graph and shared by every sheet check
+const errorChainCache = new WeakMap<DependencyGraph, ErrorChains>();
+
+/**
+ * Unique key for a cell across the workbook
+ */
+export function cellKey(sheet: string, ref: string): string {
+  return `${sheet}!${ref}`;
+}
+
+/**
+ * Display a cell key the way Excel would ('Sheet Name'!A1)
+ */
+export function formatCellKey(cell: GraphCell, currentSheet?: string): string {
+  if (cell.sheet === currentSheet) return cell.ref;
+  const sheet = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(cell.sheet) ? cell.sheet : `'${cell.sheet.replace(/'/g, "''")}'`;
+  return `${sheet}!${cell.ref}`;
+}
+
+function getUsedRange(worksheet: XLSX.WorkSheet): XLSX.Range {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  return {
+    s: range.s,
+    e: {
+      r: Math.min(range.e.r, range.s.r + MAX_ROWS_PER_SHEET - 1),
+      c: Math.min(range.e.c, range.s.c + MAX_COLS_PER_SHEET - 1),
+    },
+  };
+}
+
+/**
+ * Convert a parsed reference into a concrete range (whole rows/columns span the used range)
+ */
+function toRange(reference: FormulaReference, used: XLSX.Range): XLSX.Range {
+  const { from, to } = reference;
+  const s = {
+    r: from.row ?? used.s.r,
+    c: from.col ?? used.s.c,
+  };
+  const e = {
+    r: to.row ?? (reference.wholeColumn ? used.e.r : s.r),
+    c: to.col ?? (reference.wholeRow ? used.e.c : s.c),
+  };
+  return {
+    s: { r: Math.min(s.r, e.r), c: Math.min(s.c, e.c) },
+    e: { r: Math.max(s.r, e.r), c: Math.max(s.c, e.c) },
+  };
+}
+
+/**
+ * Precedents of a node with range nodes replaced by the cells inside them
+ */
+export function getCellPrecedents(graph: DependencyGraph, key: string): string[] {
+  return (graph.precedents.get(key) || []).flatMap(p => graph.ranges.get(p) || [p]);
+}
+
+/**
+ * Build the dependency graph for the given sheets
+ */
+export function buildDependencyGraph(workbook: XLSX.WorkBook, sheetNames: string[]): DependencyGraph {
+  const cells = new Map<string, GraphCell>();
+  const precedents = new Map<string, string[]>();
+  const ranges = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+  const references: ResolvedReference[] = [];
+  const usedRanges = new Map<string, XLSX.Range>();
+  const errors = new Map<string, string>();
+  let scannedCells = 0;
+  let edges = 0;
+  let truncated = false;
+
+  const addDependent = (target: string, key: string) => {
+    const list = dependents.get(target) || [];
+    list.push(key);
+    dependents.set(target, list);
+    edges++;
+  };
+
+  // Sheet lookup is case-insensitive, as in Excel
+  const sheetsByLowerName = new Map(workbook.SheetNames.map(name => [name.toLowerCase(), name]));
+
+  for (const sheetName of sheetNames) {
+    usedRanges.set(sheetName, getUsedRange(workbook.Sheets[sheetName]));
+  }
+
+  const getCell = (sheet: string, row: number, col: number): GraphCell => {
+    const ref = XLSX.utils.encode_cell({ r: row, c: col });
+    const key = cellKey(sheet, ref);
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { key, sheet, ref, row, col };
+      cells.set(key, cell);
+      const value = workbook.Sheets[sheet][ref];
+      if (value?.t === 'e') errors.set(key, String(value.w ?? value.v));
+    }
+    return cell;
+  };
+
+  for (const sheetName of sheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    const used = usedRanges.get(sheetName)!;
+
+    for (let row = used.s.r; row <= used.e.r; row++) {
+      for (let col = used.s.c; col <= used.e.c; col++) {
+        const address = XLSX.utils.encode_cell({ r: row, c: col });
+        const formula = worksheet[address]?.f;
+        if (!formula) continue;
+
+        const from = getCell(sheetName, row, col);
+        const cellPrecedents = new Set<string>();
+
+        for (const reference of parseReferences(formula)) {
+          if (reference.externalWorkbook) {
+            references.push({ from, reference });
+            continue;
+          }
+
+          const targetSheet = reference.sheet === undefined
+            ? sheetName
+            : sheetsByLowerName.get(reference.sheet.toLowerCase());
+          if (!targetSheet) {
+            references.push({ from, reference });
+            continue;
+          }
+
+          const targetSheetData = workbook.Sheets[targetSheet];
+          const targetUsed = usedRanges.get(targetSheet) || getUsedRange(targetSheetData);
+          const range = toRange(reference, targetUsed);
+          references.push({ from, reference, targetSheet, range });
+
+          // Clip to the used range; empty cells outside it cannot feed a formula
+          const clipped = {
+            s: { r: Math.max(range.s.r, targetUsed.s.r), c: Math.max(range.s.c, targetUsed.s.c) },
+            e: { r: Math.min(range.e.r, targetUsed.e.r), c: Math.min(range.e.c, targetUsed.e.c) },
+          };
+          const area = (clipped.e.r - clipped.s.r + 1) * (clipped.e.c - clipped.s.c + 1);
+          if (clipped.e.r < clipped.s.r || clipped.e.c < clipped.s.c || area > MAX_RANGE_CELLS) continue;
+
+          if (area === 1) {
+            if (targetSheetData[XLSX.utils.encode_cell(clipped.s)]) {
+              cellPrecedents.add(getCell(targetSheet, clipped.s.r, clipped.s.c).key);
+            }
+            continue;
+          }
+
+          // Ranges become shared nodes, expanded the first time a formula uses them
+          const rangeKey = cellKey(targetSheet, XLSX.utils.encode_range(clipped));
+          if (!ranges.has(rangeKey)) {
+            const members: string[] = [];
+            if (scannedCells + area > MAX_SCANNED_CELLS || edges >= MAX_GRAPH_EDGES) {
+              truncated = true;
+            } else {
+              scannedCells += area;
+              for (let r = clipped.s.r; r <= clipped.e.r; r++) {
+                for (let c = clipped.s.c; c <= clipped.e.c; c++) {
+                  const value = targetSheetData[XLSX.utils.encode_cell({ r, c })];
+                  if (!value || (!value.f && value.t !== 'e')) continue;
+                  const target = getCell(targetSheet, r, c);
+                  members.push(target.key);
+                  addDependent(target.key, rangeKey);
+                }
+              }
+            }
+            ranges.set(rangeKey, members);
+          }
+          cellPrecedents.add(rangeKey);
+        }
+
+        precedents.set(from.key, Array.from(cellPrecedents));
+        for (const target of cellPrecedents) addDependent(target, from.key);
+      }
+    }
+  }
+
+  return { cells, precedents, ranges, dependents, references, usedRanges, errors, truncated };
+}
+
+/**
+ * Find circular references (strongly connected components with a cycle)
+ * Iterative Tarjan's algorithm to avoid stack overflows on long chains
+ */
+export function findCycles(graph: DependencyGraph): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  for (const start of graph.precedents.keys()) {
+    if (index.has(start)) continue;
+
+    const work: { node: string; next: number }[] = [{ node: start, next: 0 }];
+    index.set(start, counter);
+    lowLink.set(start, counter);
+    counter++;
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const edges = graph.precedents.get(frame.node) || graph.ranges.get(frame.node) || [];
+
+      if (frame.next < edges.length) {
+        const target = edges[frame.next++];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter);
+          counter++;
+          stack.push(target);
+          onStack.add(target);
+          work.push({ node: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+
+        // Report cells only; a range node in a loop stands for the cell inside it
+        const loopCells = component.filter(key => graph.cells.has(key));
+        const selfLoop = component.length === 1 &&
+          (graph.precedents.get(component[0]) || []).includes(component[0]);
+        if (loopCells.length > 0 && (component.length > 1 || selfLoop)) {
+          cycles.push(loopCells.reverse());
+        }
+      }
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Group error cells into chains: each error is attributed to the cell(s) it
+ * originates from, so a cascade is reported once rather than per downstream cell
+ */
+export function getErrorChains(graph: DependencyGraph): ErrorChains {
+  const cached = errorChainCache.get(graph);
+  if (cached) return cached;
+
+  const roots = new Map<string, string[]>();
+  const propagated = new Set<string>();
+  const hasErrorPrecedent = (key: string) => getCellPrecedents(graph, key).some(p => graph.errors.has(p));
+
+  const collectDownstream = (root: string) => {
+    const downstream: string[] = [];
+    const visited = new Set([root]);
+    const queue = [root];
+    while (queue.length > 0) {
+      for (const dependent of graph.dependents.get(queue.shift()!) || []) {
+        if (visited.has(dependent)) continue;
+        // Pass through range nodes to the formulas using them
+        if (graph.ranges.has(dependent)) {
+          visited.add(dependent);
+          queue.push(dependent);
+          continue;
+        }
+        if (!graph.errors.has(dependent)) continue;
+        visited.add(dependent);
+        downstream.push(dependent);
+        propagated.add(dependent);
+        queue.push(dependent);
+      }
+    }
+    roots.set(root, downstream);
+  };
+
+  for (const key of graph.errors.keys()) {
+    if (!hasErrorPrecedent(key)) collectDownstream(key);
+  }
+
+  // Errors that only feed each other (circular) have no origin; pick one cell per loop
+  for (const key of graph.errors.keys()) {
+    if (!roots.has(key) && !propagated.has(key)) collectDownstream(key);
+  }
+
+  const chains = { roots, propagated };
+  errorChainCache.set(graph, chains);
+  return chains;
+}
@@ -22,7 +22,11 @@ export type ErrorCode =
   | 'PAYMENT_REQUIRED'
   | 'FILE_EXPIRED'
   | 'FILE_MISSING_REUPLOAD'
-  | 'PARSE_ERROR';
+  | 'PARSE_ERROR'
+  | 'INVALID_PROFILE'
+  | 'INVALID_KEY_COLUMN'
+  | 'ENCRYPTED_FILE'
+  | 'UNSAFE_ARCHIVE';
 
 /**
  * Create standardized error response
@@ -50,7 +54,7 @@ export const ERRORS = {
     createErrorResponse('FILE_TOO_LARGE', `File too large. Maximum size is ${maxSize}`, 413),
   
   INVALID_FILE_TYPE: () =>
-    createErrorResponse('INVALID_FILE_TYPE', 'Invalid file type. Please upload an Excel file (.xlsx or .xls)', 400),
+    createErrorResponse('INVALID_FILE_TYPE', 'Invalid file type. Please upload a spreadsheet (.xlsx, .xls, .xlsb, .ods, .csv, .tsv or .txt)', 400),
   
   EMPTY_FILE: () =>
     createErrorResponse('EMPTY_FILE', 'File is empty or cannot be read', 400),
@@ -93,5 +97,17 @@ export const ERRORS = {
     ),
   
   PARSE_ERROR: () =>
-    createErrorResponse('PARSE_ERROR', 'Failed to parse Excel file. The file may be corrupted or password-protected.', 400),
+    createErrorResponse('PARSE_ERROR', 'Failed to parse spreadsheet. The file may be corrupted or password-protected.', 400),
+  
+  INVALID_PROFILE: (message: string) =>
+    createErrorResponse('INVALID_PROFILE', `Invalid analysis profile: ${message}`, 400),
+  
+  INVALID_KEY_COLUMN: (message: string) =>
+    createErrorResponse('INVALID_KEY_COLUMN', `Invalid key column selection: ${message}`, 400),
+  
+  ENCRYPTED_FILE: () =>
+    createErrorResponse('ENCRYPTED_FILE', 'This workbook is password-protected. Please remove the password and upload it again.', 400),
+  
+  UNSAFE_ARCHIVE: () =>
+    createErrorResponse('UNSAFE_ARCHIVE', 'File expands to more data than can be processed safely. Please reduce its size or split it into smaller workbooks.', 413),
 };
@@ -0,0 +1,209 @@
+/**
+ * External Links and Data Connections
+ * Reads external workbook links, data connections and query tables from
+ * the XLSX package parts kept by SheetJS (bookFiles)
+ */
+
+import type * as XLSX from 'xlsx';
+import { findTags, getAttribute, readPart, readRelationships, type Relationship } from './package-parts';
+
+export interface ExternalLink {
+  // 1-based index used in formulas, e.g. [1]Sheet1!A1
+  index: number;
+  target: string;
+  sheetNames: string[];
+  // Number of cached cell values stored with the link
+  cachedValues: number;
+  // Excel recorded an error the last time it refreshed the cached values
+  refreshError: boolean;
+}
+
+export interface QueryTableTarget {
+  name: string;
+  sheet: string;
+  ref?: string;
+}
+
+export interface DataConnection {
+  id: string;
+  name: string;
+  kind: string;
+  // Connection string (passwords redacted), URL or source file
+  source?: string;
+  refreshOnLoad: boolean;
+  // Whether query results are saved with the workbook
+  savesData: boolean;
+  queryTables: QueryTableTarget[];
+}
+
+export interface PackageLinks {
+  externalLinks: ExternalLink[];
+  connections: DataConnection[];
+  // workbookPr updateLinks setting ("userSet", "never", "always")
+  updateLinks?: string;
+}
+
+const CONNECTION_KINDS: Record<string, string> = {
+  '1': 'ODBC',
+  '2': 'DAO',
+  '3': 'File',
+  '4': 'Web query',
+  '5': 'OLE DB',
+  '6': 'Text file',
+  '7': 'ADO record set',
+  '8': 'DSP',
+};
+
+/**
+ * Hide credentials in connection strings
+ */
+function redactConnectionString(connection: string): string {
+  return connection.replace(/((?:password|pwd)\s*=\s*)[^;]*/gi, '$1***');
+}
+
+function readExternalLinks(workbook: XLSX.WorkBook, workbookXml: string, workbookRels: Map<string, Relationship>): ExternalLink[] {
+  const links: ExternalLink[] = [];
+
+  // Formula indexes follow the order of <externalReference> elements
+  findTags(workbookXml, 'externalReference').forEach((tag, i) => {
+    const relationship = workbookRels.get(getAttribute(tag, 'r:id') || '');
+    if (!relationship) return;
+    const xml = readPart(workbook, relationship.target);
+    if (!xml) return;
+
+    const bookTag = findTags(xml, 'externalBook')[0];
+    const linkRels = readRelationships(workbook, relationship.target);
+    const ddeTag = findTags(xml, 'ddeLink')[0];
+    // DDE and OLE links have no externalBook element
+    const target = bookTag
+      ? linkRels.get(getAttribute(bookTag, 'r:id') || '')?.target
+      : ddeTag && `DDE ${getAttribute(ddeTag, 'ddeService')}|${getAttribute(ddeTag, 'ddeTopic')}`;
+
+    links.push({
+      index: i + 1,
+      target: target || 'unknown target',
+      sheetNames: findTags(xml, 'sheetName').map(t => getAttribute(t, 'val') || '').filter(Boolean),
+      cachedValues: findTags(xml, 'cell').length,
+      refreshError: findTags(xml, 'sheetData').some(t => getAttribute(t, 'refreshError') === '1'),
+    });
+  });
+
+  return links;
+}
+
+/**
+ * Query tables live either behind an Excel Table (sheet -> table -> queryTable)
+ * or directly on a sheet, where a defined name with the query table's name holds the range
+ */
+function readQueryTables(
+  workbook: XLSX.WorkBook,
+  workbookXml: string,
+  workbookRels: Map<string, Relationship>
+): Map<string, QueryTableTarget[]> {
+  const byConnection = new Map<string, QueryTableTarget[]>();
+  const names = workbook.Workbook?.Names || [];
+
+  const addQueryTable = (path: string, sheet: string, ref?: string) => {
+    const xml = readPart(workbook, path);
+    const tag = xml ? findTags(xml, 'queryTable')[0] : undefined;
+    if (!tag) return;
+    const connectionId = getAttribute(tag, 'connectionId') || '';
+    const name = getAttribute(tag, 'name') || path;
+    const definedName = names.find(n => n.Name === name);
+    const list = byConnection.get(connectionId) || [];
+    list.push({ name, sheet, ref: ref || definedName?.Ref.replace(/^.*!/, '').replace(/\$/g, '') });
+    byConnection.set(connectionId, list);
+  };
+
+  for (const sheetTag of findTags(workbookXml, 'sheet')) {
+    const sheet = getAttribute(sheetTag, 'name') || '';
+    const sheetPath = workbookRels.get(getAttribute(sheetTag, 'r:id') || '')?.target;
+    if (!sheetPath) continue;
+
+    for (const relationship of readRelationships(workbook, sheetPath).values()) {
+      if (relationship.type.endsWith('/queryTable')) {
+        addQueryTable(relationship.target, sheet);
+      } else if (relationship.type.endsWith('/table')) {
+        const tableXml = readPart(workbook, relationship.target);
+        const tableTag = tableXml ? findTags(tableXml, 'table')[0] : undefined;
+        for (const tableRel of readRelationships(workbook, relationship.target).values()) {
+          if (tableRel.type.endsWith('/queryTable')) {
+            addQueryTable(tableRel.target, sheet, tableTag && getAttribute(tableTag, 'ref'));
+          }
+        }
+      }
+    }
+  }
+
+  return byConnection;
+}
+
+function readConnections(
+  workbook: XLSX.WorkBook,
+  workbookXml: string,
+  workbookRels: Map<string, Relationship>
+): DataConnection[] {
+  const connectionsPath = Array.from(workbookRels.values())
+    .find(r => r.type.endsWith('/connections'))?.target || 'xl/connections.xml';
+  const xml = readPart(workbook, connectionsPath);
+  if (!xml) return [];
+
+  const queryTables = readQueryTables(workbook, workbookXml, workbookRels);
+  const connections: DataConnection[] = [];
+
+  // Split into <connection>...</connection> blocks so child elements stay with their parent
+  const blocks = xml.match(/<(?:\w+:)?connection\b[^>]*?(?:\/>|>[\s\S]*?<\/(?:\w+:)?connection>)/g) || [];
+  for (const block of blocks) {
+    const tag = findTags(block, 'connection')[0];
+    if (getAttribute(tag, 'deleted') === '1') continue;
+
+    const id = getAttribute(tag, 'id') || '';
+    const dbTag = findTags(block, 'dbPr')[0];
+    const webTag = findTags(block, 'webPr')[0];
+    const textTag = findTags(block, 'textPr')[0];
+    const connectionString = dbTag && getAttribute(dbTag, 'connection');
+
+    let kind = CONNECTION_KINDS[getAttribute(tag, 'type') || ''] || 'Connection';
+    let source: string | undefined;
+    if (connectionString?.includes('Microsoft.Mashup.OleDb')) {
+      kind = 'Power Query';
+      source = connectionString.match(/Location=([^;]*)/i)?.[1];
+    } else if (connectionString) {
+      source = redactConnectionString(connectionString);
+    } else if (webTag) {
+      source = getAttribute(webTag, 'url');
+    } else if (textTag) {
+      source = getAttribute(textTag, 'sourceFile');
+    }
+
+    connections.push({
+      id,
+      name: getAttribute(tag, 'name') || `Connection ${id}`,
+      kind,
+      source: source || getAttribute(tag, 'odcFile'),
+      refreshOnLoad: getAttribute(tag, 'refreshOnLoad') === '1',
+      savesData: getAttribute(tag, 'saveData') === '1',
+      queryTables: queryTables.get(id) || [],
+    });
+  }
+
+  return connections;
+}
+
+/**
+ * Inventory external links and data connections in an XLSX package
+ * Returns empty lists for other formats (no package parts available)
+ */
+export function readPackageLinks(workbook: XLSX.WorkBook): PackageLinks {
+  const workbookXml = readPart(workbook, 'xl/workbook.xml');
+  if (!workbookXml) return { externalLinks: [], connections: [] };
+
+  const workbookRels = readRelationships(workbook, 'xl/workbook.xml');
+  const workbookPr = findTags(workbookXml, 'workbookPr')[0];
+
+  return {
+    externalLinks: readExternalLinks(workbook, workbookXml, workbookRels),
+    connections: readConnections(workbook, workbookXml, workbookRels),
+    updateLinks: workbookPr && getAttribute(workbookPr, 'updateLinks'),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Upload Content Inspection
+ * Identifies spreadsheet files by their magic bytes rather than name or MIME
+ * type, detects password-protected workbooks, and bounds ZIP decompression
+ * before the buffer reaches SheetJS
+ */
+
+import * as XLSX from 'xlsx';
+import { inflateRawSync } from 'zlib';
+import type { SpreadsheetFormat } from './types';
+import { MAX_ARCHIVE_ENTRIES, MAX_DECOMPRESSED_BYTES } from './limits';
+import { detectBomlessUtf16 } from './csv';
+
+// File signatures
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const EMPTY_ZIP_SIGNATURE = [0x50, 0x4b, 0x05, 0x06];
+const OLE2_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// ZIP record signatures
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+// BIFF record type marking an encrypted .xls workbook stream
+const BIFF_FILEPASS = 0x002f;
+
+// Bytes sampled when deciding whether a file is text
+const TEXT_SAMPLE_BYTES = 8192;
+
+export type InspectionFailure = 'INVALID_FILE_TYPE' | 'ENCRYPTED_FILE' | 'UNSAFE_ARCHIVE';
+
+export type FileInspection =
+  | { ok: true; format: SpreadsheetFormat }
+  | { ok: false; code: InspectionFailure; reason: string };
+
+export interface InspectionOptions {
+  // Inflate every archive entry to verify its declared size (default). Files
+  // already verified on upload only need identifying
+  verifyArchive?: boolean;
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+function startsWith(buffer: Buffer, signature: number[]): boolean {
+  return buffer.length >= signature.length && signature.every((byte, i) => buffer[i] === byte);
+}
+
+function fail(code: InspectionFailure, reason: string): FileInspection {
+  return { ok: false, code, reason };
+}
+
+/**
+ * Read ZIP central directory entries (returns null if the directory is malformed)
+ * Entries are not read when the declared count exceeds the archive entry limit
+ */
+function readZipEntries(buffer: Buffer): { entryCount: number; entries: ZipEntry[] } | null {
+  // End of central directory record: 22 bytes plus up to 64KB comment
+  const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= minOffset; i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) return null;
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount > MAX_ARCHIVE_ENTRIES) {
+    return { entryCount, entries: [] };
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      return null;
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      flags: buffer.readUInt16LE(offset + 8),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      name: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { entryCount, entries };
+}
+
+/**
+ * Decompress a single entry, refusing to produce more than `maxBytes`
+ * Throws RangeError when the limit is exceeded
+ */
+function readZipEntry(buffer: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > buffer.length || buffer.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Malformed local header for ${entry.name}`);
+  }
+  const dataStart = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) {
+    if (data.length > maxBytes) throw new RangeError('Stored entry exceeds limit');
+    return data;
+  }
+  if (entry.method === 8) {
+    return inflateRawSync(data, { maxOutputLength: Math.max(1, maxBytes) });
+  }
+  throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}
+
+/**
+ * Validate a ZIP-based package (XLSX, XLSB, ODS) and identify its format
+ */
+function inspectZip(buffer: Buffer, verifyArchive: boolean): FileInspection {
+  const directory = readZipEntries(buffer);
+  if (!directory) {
+    return fail('INVALID_FILE_TYPE', 'ZIP central directory is missing or corrupt');
+  }
+  if (directory.entryCount > MAX_ARCHIVE_ENTRIES) {
+    return fail('UNSAFE_ARCHIVE', `Archive contains ${directory.entryCount} entries (limit: ${MAX_ARCHIVE_ENTRIES})`);
+  }
+  const { entries } = directory;
+
+  // ZIP64 archives store real sizes elsewhere; spreadsheets under our upload limit never need them
+  if (entries.some(e => e.compressedSize === 0xffffffff || e.uncompressedSize === 0xffffffff)) {
+    return fail('UNSAFE_ARCHIVE', 'ZIP64 archives are not supported');
+  }
+
+  // Traditional ZIP encryption
+  if (entries.some(e => (e.flags & 0x1) !== 0)) {
+    return fail('ENCRYPTED_FILE', 'Archive entries are encrypted');
+  }
+
+  // Declared sizes first (cheap), then verify by actually inflating within budget
+  const declaredTotal = entries.reduce((sum, e) => sum + e.uncompressedSize, 0);
+  if (declaredTotal > MAX_DECOMPRESSED_BYTES) {
+    return fail('UNSAFE_ARCHIVE', `Archive expands to ${declaredTotal} bytes (limit: ${MAX_DECOMPRESSED_BYTES})`);
+  }
+
+  let remaining = MAX_DECOMPRESSED_BYTES;
+  const contents = new Map<string, Buffer>();
+  for (const entry of entries) {
+    if (entry.name.endsWith('/')) continue;
+    const needed = entry.name === 'mimetype' || entry.name === 'META-INF/manifest.xml';
+    if (!verifyArchive && !needed) continue;
+    let content: Buffer;
+    try {
+      content = readZipEntry(buffer, entry, remaining);
+    } catch (error) {
+      if (error instanceof RangeError) {
+        return fail('UNSAFE_ARCHIVE', `Archive expands beyond ${MAX_DECOMPRESSED_BYTES} bytes`);
+      }
+      return fail('INVALID_FILE_TYPE', error instanceof Error ? error.message : 'Corrupt archive entry');
+    }
+    remaining -= content.length;
+    if (remaining < 0) {
+      return fail('UNSAFE_ARCHIVE', `Archive expands beyond ${MAX_DECOMPRESSED_BYTES} bytes`);
+    }
+    if (needed) contents.set(entry.name, content);
+  }
+
+  const names = new Set(entries.map(e => e.name));
+
+  // OpenDocument: mimetype entry, encryption declared in the manifest
+  const mimetype = contents.get('mimetype')?.toString('utf8').trim();
+  if (mimetype === 'application/vnd.oasis.opendocument.spreadsheet') {
+    const manifest = contents.get('META-INF/manifest.xml')?.toString('utf8') || '';
+    if (manifest.includes('encryption-data')) {
+      return fail('ENCRYPTED_FILE', 'OpenDocument spreadsheet is password-protected');
+    }
+    return { ok: true, format: 'ods' };
+  }
+
+  if (names.has('xl/workbook.bin')) return { ok: true, format: 'xlsb' };
+  if (names.has('xl/workbook.xml')) return { ok: true, format: 'xlsx' };
+
+  return fail('INVALID_FILE_TYPE', 'ZIP archive is not a spreadsheet package');
+}
+
+/**
+ * Check whether a BIFF workbook stream starts with a FILEPASS (encryption) record
+ */
+function hasBiffFilePass(stream: Buffer): boolean {
+  let offset = 0;
+  // FILEPASS must follow the BOF record closely; only scan the first records
+  for (let i = 0; i < 20 && offset + 4 <= stream.length; i++) {
+    const type = stream.readUInt16LE(offset);
+    const length = stream.readUInt16LE(offset + 2);
+    if (type === BIFF_FILEPASS) return true;
+    offset += 4 + length;
+  }
+  return false;
+}
+
+/**
+ * Validate an OLE2 compound file (legacy .xls, or encrypted OOXML)
+ */
+function inspectOle(buffer: Buffer): FileInspection {
+  let container;
+  try {
+    container = XLSX.CFB.read(buffer, { type: 'buffer' });
+  } catch {
+    return fail('INVALID_FILE_TYPE', 'Compound file is corrupt');
+  }
+
+  const streamNames: string[] = container.FileIndex.map((entry: { name: string }) => entry.name);
+
+  // Password-protected XLSX/XLSB files are wrapped in an OLE2 container
+  if (streamNames.includes('EncryptionInfo') || streamNames.includes('EncryptedPackage')) {
+    return fail('ENCRYPTED_FILE', 'Workbook is encrypted with a password');
+  }
+
+  const workbookStream = XLSX.CFB.find(container, 'Workbook') || XLSX.CFB.find(container, 'Book');
+  if (!workbookStream) {
+    return fail('INVALID_FILE_TYPE', 'Compound file does not contain a workbook');
+  }
+
+  const content = workbookStream.content ? Buffer.from(workbookStream.content) : Buffer.alloc(0);
+  if (hasBiffFilePass(content)) {
+    return fail('ENCRYPTED_FILE', 'Workbook is protected with a password');
+  }
+
+  return { ok: true, format: 'xls' };
+}
+
+/**
+ * Heuristic: printable text with no NUL bytes (UTF-16 with or without BOM allowed)
+ */
+function looksLikeText(buffer: Buffer): boolean {
+  if (startsWith(buffer, [0xff, 0xfe]) || startsWith(buffer, [0xfe, 0xff])) return true;
+  if (detectBomlessUtf16(buffer)) return true;
+
+  const sample = buffer.subarray(0, TEXT_SAMPLE_BYTES);
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return false;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) {
+      control++;
+    }
+  }
+  return control / Math.max(1, sample.length) < 0.01;
+}
+
+/**
+ * Identify an uploaded file from its content and check it is safe to parse
+ */
+export function inspectFile(buffer: Buffer, { verifyArchive = true }: InspectionOptions = {}): FileInspection {
+  if (startsWith(buffer, ZIP_SIGNATURE) || startsWith(buffer, EMPTY_ZIP_SIGNATURE)) {
+    return inspectZip(buffer, verifyArchive);
+  }
+
+  if (startsWith(buffer, OLE2_SIGNATURE)) {
+    return inspectOle(buffer);
+  }
+
+  if (looksLikeText(buffer)) {
+    // SpreadsheetML 2003 and HTML tables saved with an .xls extension
+    const head = buffer.subarray(0, 512).toString('utf8').replace(/^\uFEFF/, '').trimStart().toLowerCase();
+    if (head.startsWith('<?xml') || head.startsWith('<html') || head.startsWith('<table')) {
+      return { ok: true, format: 'xls' };
+    }
+    return { ok: true, format: 'csv' };
+  }
+
+  return fail('INVALID_FILE_TYPE', 'File content does not match any supported spreadsheet format');
+}
@@ -0,0 +1,298 @@
+/**
+ * Formula Reference Parsing
+ * Extracts A1-style cell and range references from formula text and
+ * converts formulas to a position-independent (R1C1-style) form
+ */
+
+import * as XLSX from 'xlsx';
+
+export interface RefPoint {
+  // Zero-based; undefined for whole-row (col) or whole-column (row) references
+  row?: number;
+  col?: number;
+  rowAbsolute: boolean;
+  colAbsolute: boolean;
+}
+
+export interface FormulaReference {
+  // Original reference text, including any sheet prefix
+  text: string;
+  // Offset of the reference in the formula
+  index: number;
+  // Referenced sheet name (unquoted), if the reference has a sheet prefix
+  sheet?: string;
+  // External workbook marker, e.g. "1" for [1]Sheet1!A1
+  externalWorkbook?: string;
+  from: RefPoint;
+  to: RefPoint;
+  isRange: boolean;
+  wholeColumn: boolean;
+  wholeRow: boolean;
+}
+
+export interface FunctionCall {
+  // Upper-cased function name without _xlfn./_xlws. prefixes
+  name: string;
+  // Offset of the function name in the formula
+  index: number;
+  // Offsets of the opening and closing parentheses of the argument list
+  open: number;
+  close: number;
+}
+
+// Optional sheet prefix: 'Quoted Name'! or Plain_Name! (either may carry an [n] workbook marker)
+const SHEET_PREFIX = `(?:'((?:[^']|'')+)'|((?:\\[[^\\]]+\\])?[A-Za-z0-9_.]+(?::[A-Za-z0-9_.]+)?))!`;
+const CELL = '\\$?[A-Za-z]{1,3}\\$?\\d{1,7}';
+const COLUMN = '\\$?[A-Za-z]{1,3}';
+const ROW = '\\$?\\d{1,7}';
+
+// Cell, cell range, whole-column range or whole-row range, with optional sheet prefix
+const REFERENCE_PATTERN = new RegExp(
+  `(${SHEET_PREFIX})?(${CELL}(?::${CELL})?|${COLUMN}:${COLUMN}|${ROW}:${ROW})`,
+  'g'
+);
+
+// Characters that make an adjacent match part of a longer identifier
+const IDENTIFIER_CHAR = /[A-Za-z0-9_.$]/;
+
+// Function name followed by its opening parenthesis
+const FUNCTION_PATTERN = /([A-Za-z_][A-Za-z0-9_.]*)\s*\(/g;
+
+// Error literals; a deleted reference keeps any cell part after it (#REF!A1)
+const ERROR_LITERAL = /^#(?:REF!(?:\$?[A-Za-z]{0,3}\$?\d{0,7}(?::\$?[A-Za-z]{0,3}\$?\d{0,7})?)|NULL!|DIV\/0!|VALUE!|NAME\?|NUM!|N\/A|GETTING_DATA)/i;
+
+// Defined names, function names and other bare identifiers
+const IDENTIFIER_PATTERN = /[A-Za-z_\\][A-Za-z0-9_.\\]*/g;
+
+/**
+ * Replace string literals, error literals and structured-reference brackets
+ * with spaces, keeping offsets intact so matches map back to the original formula
+ */
+function maskNonReferences(formula: string): string {
+  const chars = formula.split('');
+  let i = 0;
+
+  while (i < chars.length) {
+    const ch = chars[i];
+
+    if (ch === '"') {
+      // String literal ("" escapes a quote)
+      let j = i + 1;
+      while (j < chars.length) {
+        if (chars[j] === '"' && chars[j + 1] === '"') {
+          j += 2;
+        } else if (chars[j] === '"') {
+          break;
+        } else {
+          j++;
+        }
+      }
+      for (let k = i; k <= Math.min(j, chars.length - 1); k++) chars[k] = ' ';
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "'") {
+      // Quoted sheet name: keep as-is
+      let j = i + 1;
+      while (j < chars.length && !(chars[j] === "'" && chars[j + 1] !== "'")) {
+        j += chars[j] === "'" ? 2 : 1;
+      }
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === '#') {
+      // Error literal: "#REF!A1" must not read as cell A1 on a sheet named "REF"
+      const error = formula.slice(i).match(ERROR_LITERAL);
+      if (error) {
+        for (let k = i; k < i + error[0].length; k++) chars[k] = ' ';
+        i += error[0].length;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      // Structured references (Table1[Col], [@Col], [[#Headers],...]) are masked;
+      // external workbook markers ([1]Sheet1!A1) are kept
+      const prev = i > 0 ? chars[i - 1] : '';
+      const next = chars[i + 1] || '';
+      const isStructured = IDENTIFIER_CHAR.test(prev) || next === '@' || next === '#' || next === '[';
+      let depth = 0;
+      let j = i;
+      for (; j < chars.length; j++) {
+        if (chars[j] === '[') depth++;
+        if (chars[j] === ']') depth--;
+        if (depth === 0) break;
+      }
+      if (isStructured) {
+        for (let k = i; k <= Math.min(j, chars.length - 1); k++) chars[k] = ' ';
+      }
+      i = j + 1;
+      continue;
+    }
+
+    i++;
+  }
+
+  return chars.join('');
+}
+
+function parsePoint(text: string): RefPoint {
+  const match = text.match(/^(\$?)([A-Za-z]{1,3})?(\$?)(\d+)?$/);
+  if (!match) return { rowAbsolute: false, colAbsolute: false };
+
+  const [, colAbs, colLetters, rowAbs, rowDigits] = match;
+  // Whole-row references are digits only, so the first "$" belongs to the row
+  if (!colLetters) {
+    return {
+      row: rowDigits ? parseInt(rowDigits, 10) - 1 : undefined,
+      rowAbsolute: colAbs === '$' || rowAbs === '$',
+      colAbsolute: false,
+    };
+  }
+  return {
+    col: XLSX.utils.decode_col(colLetters.toUpperCase()),
+    row: rowDigits ? parseInt(rowDigits, 10) - 1 : undefined,
+    colAbsolute: colAbs === '$',
+    rowAbsolute: rowAbs === '$',
+  };
+}
+
+/**
+ * Extract cell and range references from a formula (without leading "=")
+ */
+export function parseReferences(formula: string): FormulaReference[] {
+  const masked = maskNonReferences(formula);
+  const references: FormulaReference[] = [];
+
+  REFERENCE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = REFERENCE_PATTERN.exec(masked)) !== null) {
+    const [text, prefix, quotedSheet, plainSheet, body] = match;
+    const before = match.index > 0 ? masked[match.index - 1] : '';
+    const after = masked[match.index + text.length] || '';
+
+    // Skip parts of identifiers, function names (LOG10(...)) and defined names
+    if ((!prefix && IDENTIFIER_CHAR.test(before)) || IDENTIFIER_CHAR.test(after) || after === '(') {
+      // Let the scan continue one character later so trailing refs are still found
+      REFERENCE_PATTERN.lastIndex = match.index + 1;
+      continue;
+    }
+
+    let sheet: string | undefined;
+    let externalWorkbook: string | undefined;
+    const rawSheet = quotedSheet !== undefined ? quotedSheet.replace(/''/g, "'") : plainSheet;
+    if (rawSheet !== undefined) {
+      const external = rawSheet.match(/^\[([^\]]+)\](.*)$/);
+      if (external) {
+        externalWorkbook = external[1];
+        sheet = external[2];
+      } else {
+        sheet = rawSheet;
+      }
+    }
+
+    const [fromText, toText] = body.split(':');
+    const from = parsePoint(fromText);
+    const to = toText ? parsePoint(toText) : from;
+
+    references.push({
+      text,
+      index: match.index,
+      sheet,
+      externalWorkbook,
+      from,
+      to,
+      isRange: toText !== undefined,
+      wholeColumn: from.row === undefined && from.col !== undefined,
+      wholeRow: from.col === undefined && from.row !== undefined,
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Find function calls in a formula (without leading "="), including nested calls
+ */
+export function parseFunctionCalls(formula: string): FunctionCall[] {
+  const masked = maskNonReferences(formula);
+  const calls: FunctionCall[] = [];
+
+  FUNCTION_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = FUNCTION_PATTERN.exec(masked)) !== null) {
+    const before = match.index > 0 ? masked[match.index - 1] : '';
+    // Skip sheet-qualified names and quoted text
+    if (before === '!' || before === "'") continue;
+
+    const open = match.index + match[0].length - 1;
+    let depth = 0;
+    let close = masked.length;
+    for (let i = open; i < masked.length; i++) {
+      if (masked[i] === '(') depth++;
+      if (masked[i] === ')') depth--;
+      if (depth === 0) {
+        close = i;
+        break;
+      }
+    }
+
+    calls.push({
+      name: match[1].toUpperCase().replace(/^_XL(FN|WS)\./, ''),
+      index: match.index,
+      open,
+      close,
+    });
+    // Continue scanning inside the argument list for nested calls
+    FUNCTION_PATTERN.lastIndex = open + 1;
+  }
+
+  return calls;
+}
+
+/**
+ * Bare identifiers in a formula (upper-cased), e.g. defined names, functions
+ * and sheet names; text inside string literals is ignored
+ */
+export function parseIdentifiers(formula: string): Set<string> {
+  const identifiers = new Set<string>();
+  for (const identifier of maskNonReferences(formula).match(IDENTIFIER_PATTERN) || []) {
+    identifiers.add(identifier.toUpperCase());
+  }
+  return identifiers;
+}
+
+function relativePoint(point: RefPoint, row: number, col: number): string {
+  let text = '';
+  if (point.row !== undefined) {
+    text += point.rowAbsolute ? `R${point.row + 1}` : `R[${point.row - row}]`;
+  }
+  if (point.col !== undefined) {
+    text += point.colAbsolute ? `C${point.col + 1}` : `C[${point.col - col}]`;
+  }
+  return text;
+}
+
+/**
+ * Rewrite a formula with references relative to the cell at (row, col),
+ * so that a formula filled down or across a column normalises to the same text
+ */
+export function toRelativeForm(formula: string, row: number, col: number): string {
+  const references = parseReferences(formula);
+  let result = '';
+  let last = 0;
+
+  for (const ref of references) {
+    const prefix = ref.sheet !== undefined
+      ? `${ref.externalWorkbook ? `[${ref.externalWorkbook}]` : ''}${ref.sheet}!`
+      : '';
+    const from = relativePoint(ref.from, row, col);
+    const target = ref.isRange ? `${from}:${relativePoint(ref.to, row, col)}` : from;
+    result += formula.slice(last, ref.index) + prefix + target;
+    last = ref.index + ref.text.length;
+  }
+
+  return (result + formula.slice(last)).replace(/\s+/g, '').toUpperCase();
+}
@@ -0,0 +1,241 @@
+/**
+ * Header Row Detection
+ * Finds the header row(s) of a sheet by scoring candidate rows on text
+ * density and type contrast with the rows below, so title banners and
+ * blank rows above a table are not mistaken for headers
+ */
+
+import * as XLSX from 'xlsx';
+import { MAX_COLS_PER_SHEET } from './limits';
+
+// Rows from the top of the used range considered as header candidates
+const MAX_CANDIDATE_ROWS = 20;
+// Non-blank rows below a candidate used to judge type contrast
+const SAMPLE_ROWS = 10;
+// Longest multi-row header considered (e.g. group labels over column labels)
+const MAX_HEADER_ROWS = 3;
+// Best scores below this fall back to the first row (the sheet has no clear header)
+const MIN_SCORE = 0.5;
+
+// Text that is really a number ("1", "1,200.50", "15%"); never a header label
+const NUMERIC_TEXT = /^[-+]?[\d.,]+%?$/;
+
+type CellKind = 'empty' | 'text' | 'number' | 'date' | 'other';
+
+export interface HeaderDetection {
+  // Zero-based first and last header rows (equal for a single-row header)
+  firstRow: number;
+  lastRow: number;
+  // Header label for each column of the range; multi-row labels are joined with " / "
+  labels: string[];
+  // detected: chosen by scoring; override: set by the caller; default: first row, nothing scored;
+  // table: declared by an Excel Table (lastRow < firstRow when the table has no header row)
+  source: 'detected' | 'override' | 'default' | 'table';
+}
+
+function getKind(cell: XLSX.CellObject | undefined): CellKind {
+  if (!cell || cell.v === undefined || cell.v === null || cell.v === '') return 'empty';
+  if (cell.t === 's') {
+    const text = String(cell.v).trim();
+    if (!text) return 'empty';
+    return NUMERIC_TEXT.test(text) ? 'number' : 'text';
+  }
+  if (cell.t === 'd') return 'date';
+  if (cell.t === 'n') return cell.z && XLSX.SSF.is_date(cell.z) ? 'date' : 'number';
+  return 'other';
+}
+
+/**
+ * Merged range anchored elsewhere that covers (row, col), if any
+ */
+function findMerge(merges: XLSX.Range[], row: number, col: number): XLSX.Range | undefined {
+  return merges.find(m => m.s.r <= row && row <= m.e.r && m.s.c <= col && col <= m.e.c);
+}
+
+/**
+ * Cell text for a header cell; blanks covered by a merge take the merge's value
+ */
+function getHeaderText(worksheet: XLSX.WorkSheet, merges: XLSX.Range[], row: number, col: number): string {
+  const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+  const text = cell && cell.v !== undefined && cell.v !== null ? String(cell.v).trim() : '';
+  if (text) return text;
+  const merge = findMerge(merges, row, col);
+  if (!merge || (merge.s.r === row && merge.s.c === col)) return '';
+  const anchor = worksheet[XLSX.utils.encode_cell(merge.s)];
+  return anchor && anchor.v !== undefined ? String(anchor.v).trim() : '';
+}
+
+/**
+ * Combined labels for header rows firstRow..lastRow
+ */
+function buildLabels(
+  worksheet: XLSX.WorkSheet,
+  merges: XLSX.Range[],
+  range: XLSX.Range,
+  firstRow: number,
+  lastRow: number
+): string[] {
+  const labels: string[] = [];
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const parts: string[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      const text = getHeaderText(worksheet, merges, row, col);
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+    labels.push(parts.join(' / '));
+  }
+  return labels;
+}
+
+/**
+ * Whether a row can be part of a multi-row header: all values are text, and
+ * it labels several columns (a single merged group label counts unless it
+ * starts in the first column, which is what a title banner looks like)
+ */
+function isHeaderLikeRow(
+  worksheet: XLSX.WorkSheet,
+  merges: XLSX.Range[],
+  range: XLSX.Range,
+  row: number
+): boolean {
+  let filled = 0;
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const kind = getKind(worksheet[XLSX.utils.encode_cell({ r: row, c: col })]);
+    if (kind === 'empty') continue;
+    if (kind !== 'text') return false;
+    filled++;
+  }
+  if (filled >= 2) return true;
+  return filled === 1 && merges.some(m => m.s.r === row && m.e.c > m.s.c && m.s.c > range.s.c);
+}
+
+/**
+ * Score a header block (0-1): share of text cells, share of data columns
+ * labelled, distinct labels, contrast with the values below, and how few
+ * table-like rows sit above it
+ */
+function scoreBlock(
+  worksheet: XLSX.WorkSheet,
+  merges: XLSX.Range[],
+  range: XLSX.Range,
+  firstRow: number,
+  lastRow: number
+): number {
+  let filled = 0;
+  let text = 0;
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const kind = getKind(worksheet[XLSX.utils.encode_cell({ r: row, c: col })]);
+      if (kind === 'empty') continue;
+      filled++;
+      if (kind === 'text') text++;
+    }
+  }
+  if (filled === 0) return 0;
+
+  // Sample the next non-blank rows
+  const sample: number[] = [];
+  for (let row = lastRow + 1; row <= range.e.r && sample.length < SAMPLE_ROWS; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      if (getKind(worksheet[XLSX.utils.encode_cell({ r: row, c: col })]) !== 'empty') {
+        sample.push(row);
+        break;
+      }
+    }
+  }
+  if (sample.length === 0) return 0;
+
+  const labels = buildLabels(worksheet, merges, range, firstRow, lastRow);
+  let dataColumns = 0;
+  let labelledColumns = 0;
+  let contrastTotal = 0;
+
+  labels.forEach((label, i) => {
+    const col = range.s.c + i;
+    const below = sample
+      .map(row => worksheet[XLSX.utils.encode_cell({ r: row, c: col })] as XLSX.CellObject | undefined)
+      .filter(cell => getKind(cell) !== 'empty');
+    if (below.length === 0) return;
+    dataColumns++;
+    if (!label) return;
+    labelledColumns++;
+
+    const nonText = below.filter(cell => getKind(cell) !== 'text').length;
+    if (nonText / below.length >= 0.5) {
+      contrastTotal += 1;
+    } else if (!below.some(cell => String(cell!.v).trim().toLowerCase() === label.toLowerCase())) {
+      contrastTotal += 0.5;
+    }
+  });
+  if (dataColumns === 0 || labelledColumns === 0) return 0;
+
+  // Titles and notes above a header fill one or two cells; data rows fill most columns
+  let denseRowsAbove = 0;
+  for (let row = range.s.r; row < firstRow; row++) {
+    let rowFilled = 0;
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      if (getKind(worksheet[XLSX.utils.encode_cell({ r: row, c: col })]) !== 'empty') rowFilled++;
+    }
+    if (rowFilled >= Math.max(2, dataColumns / 2)) denseRowsAbove++;
+  }
+
+  const nonEmptyLabels = labels.filter(Boolean);
+  const distinct = new Set(nonEmptyLabels.map(l => l.toLowerCase())).size / nonEmptyLabels.length;
+  const coverage = labelledColumns / dataColumns;
+  const contrast = contrastTotal / labelledColumns;
+
+  return (text / filled) * coverage * (0.5 + 0.5 * distinct) * (0.5 + 0.5 * contrast) / (1 + denseRowsAbove);
+}
+
+/**
+ * Detect the header row(s) of a sheet
+ * overrideRow (zero-based) forces a single header row
+ */
+export function detectHeader(worksheet: XLSX.WorkSheet, fullRange: XLSX.Range, overrideRow?: number): HeaderDetection {
+  const range = {
+    s: fullRange.s,
+    e: { r: fullRange.e.r, c: Math.min(fullRange.e.c, fullRange.s.c + MAX_COLS_PER_SHEET - 1) },
+  };
+  const merges = worksheet['!merges'] || [];
+
+  if (overrideRow !== undefined) {
+    return {
+      firstRow: overrideRow,
+      lastRow: overrideRow,
+      labels: buildLabels(worksheet, merges, range, overrideRow, overrideRow),
+      source: 'override',
+    };
+  }
+
+  let best = { firstRow: range.s.r, lastRow: range.s.r, score: 0 };
+  const lastCandidate = Math.min(range.e.r, range.s.r + MAX_CANDIDATE_ROWS - 1);
+
+  for (let firstRow = range.s.r; firstRow <= lastCandidate; firstRow++) {
+    for (let count = 1; count <= MAX_HEADER_ROWS && firstRow + count - 1 <= lastCandidate; count++) {
+      const lastRow = firstRow + count - 1;
+      // Every row of a multi-row header must look like a header row
+      if (count > 1 && !isHeaderLikeRow(worksheet, merges, range, lastRow)) break;
+      if (count === 2 && !isHeaderLikeRow(worksheet, merges, range, firstRow)) break;
+
+      const score = scoreBlock(worksheet, merges, range, firstRow, lastRow);
+      // Ties keep the earlier, shorter header
+      if (score > best.score) best = { firstRow, lastRow, score };
+    }
+  }
+
+  if (best.score < MIN_SCORE) {
+    return {
+      firstRow: range.s.r,
+      lastRow: range.s.r,
+      labels: buildLabels(worksheet, merges, range, range.s.r, range.s.r),
+      source: 'default',
+    };
+  }
+
+  return {
+    firstRow: best.firstRow,
+    lastRow: best.lastRow,
+    labels: buildLabels(worksheet, merges, range, best.firstRow, best.lastRow),
+    source: 'detected',
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Key Column Candidates
+ * Scores every column as a possible record key from its values (uniqueness,
+ * blanks, value shape) and its header, and suggests column combinations
+ * that are unique when no single column is
+ */
+
+import * as XLSX from 'xlsx';
+import type { ColumnCandidate } from './types';
+import type { HeaderDetection } from './header-detection';
+
+// Headers that are always offered as keys
+const KEY_COLUMN_PATTERNS = /^(id|ID|Id|_id|sku|SKU|order|Order|email|Email|order_id|orderId|user_id|userId|product_id|productId)$/i;
+// Words that name an identifier: "Invoice #", "Customer Number", "line_no", "Ref."
+const KEY_HEADER_WORDS = /(^|[^a-z])(id|#|no|nr|num|number|code|key|ref|reference|sku|uuid|guid|email)([^a-z]|$)/i;
+
+// Rows sampled per sheet, and fewest rows needed to judge a column by its data
+const KEY_SAMPLE_ROWS = 200;
+const MIN_KEY_SAMPLE_ROWS = 5;
+// Candidates below this confidence are not offered (unless the header is a known key name)
+const MIN_CONFIDENCE = 0.5;
+// A single column this confident and fully unique makes composite suggestions unnecessary
+const STRONG_CONFIDENCE = 0.8;
+const MAX_COLUMN_SUGGESTIONS = 5;
+// Composite key search: leftmost columns tried, suggestions per sheet
+const MAX_COMPOSITE_KEY_COLUMNS = 8;
+const MAX_COMPOSITE_SUGGESTIONS = 3;
+
+interface ScoredColumn {
+  candidate: ColumnCandidate;
+  // Share of distinct values among the sampled values
+  uniqueness: number;
+}
+
+function isDateCell(cell: XLSX.CellObject): boolean {
+  return cell.t === 'd' || (cell.t === 'n' && !!cell.z && XLSX.SSF.is_date(cell.z));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Header hint (0-1): 1 for known key names, 0.8 for identifier words
+ */
+function scoreHeader(label: string): number {
+  if (KEY_COLUMN_PATTERNS.test(label)) return 1;
+  // Split camelCase so "invoiceNo" reads as "invoice No"
+  return KEY_HEADER_WORDS.test(label.replace(/([a-z])([A-Z])/g, '$1 $2')) ? 0.8 : 0;
+}
+
+/**
+ * Structural pattern of a value: "INV-00123" -> "A-9", "a@b.com" -> "A@A.A"
+ */
+function getShape(value: string): string {
+  return value.replace(/[0-9]+/g, '9').replace(/[A-Za-z]+/g, 'A');
+}
+
+/**
+ * Non-blank data rows used for scoring
+ */
+function sampleRows(worksheet: XLSX.WorkSheet, range: XLSX.Range, header: HeaderDetection): number[] {
+  const rows: number[] = [];
+  for (let row = header.lastRow + 1; row <= range.e.r && rows.length < KEY_SAMPLE_ROWS; row++) {
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      if (worksheet[XLSX.utils.encode_cell({ r: row, c: col })]?.v !== undefined) {
+        rows.push(row);
+        break;
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * Confidence (0-1) that a column is a record key
+ */
+function scoreColumn(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  label: string,
+  col: number,
+  rows: number[]
+): ScoredColumn {
+  const cells = rows
+    .map(row => worksheet[XLSX.utils.encode_cell({ r: row, c: col })] as XLSX.CellObject | undefined)
+    .filter((cell): cell is XLSX.CellObject => !!cell && cell.v !== undefined && cell.v !== '');
+  const values = cells.map(cell => String(cell.v).trim());
+  const headerScore = scoreHeader(label);
+
+  let dataScore = 0;
+  let uniqueness = 0;
+  if (values.length > 0) {
+    uniqueness = new Set(values).size / values.length;
+    const filledRatio = values.length / rows.length;
+
+    // Measures, dates, flags and error values are not keys
+    const numbers = cells.filter(cell => cell.t === 'n');
+    const unkeyable = cells.some(cell =>
+      cell.t === 'b' || cell.t === 'e' || isDateCell(cell) || (cell.t === 'n' && !Number.isInteger(cell.v))
+    );
+
+    let shapeScore = 0;
+    if (!unkeyable) {
+      const shapes = new Map<string, number>();
+      values.forEach(value => shapes.set(getShape(value), (shapes.get(getShape(value)) || 0) + 1));
+      shapeScore = Math.max(...Array.from(shapes.values())) / values.length;
+      // Free text (names, descriptions) rarely identifies a record
+      if (values.filter(value => /\s/.test(value)).length > values.length / 2) shapeScore *= 0.5;
+      // Keys hold one type of value
+      if (numbers.length > 0 && numbers.length < cells.length) shapeScore *= 0.5;
+      if (headerScore === 0) {
+        // Unique whole numbers may be counts or amounts; ascending ones look like ids
+        const ascending = numbers.every((cell, i) => i === 0 || (cell.v as number) > (numbers[i - 1].v as number));
+        if (numbers.length === cells.length && !ascending) shapeScore *= 0.5;
+        // Plain words (product or place names) are labels more often than codes
+        if (numbers.length === 0 && !values.some(value => /\d/.test(value))) shapeScore *= 0.7;
+      }
+    }
+
+    dataScore = uniqueness * uniqueness * filledRatio * shapeScore;
+  }
+
+  const confidence = headerScore > 0 ? 0.6 * dataScore + 0.4 * headerScore : 0.85 * dataScore;
+
+  return {
+    candidate: {
+      sheet: sheetName,
+      column: label,
+      columnIndex: col,
+      sampleValues: values.slice(0, 5),
+      confidence: round(confidence),
+    },
+    uniqueness,
+  };
+}
+
+/**
+ * Column combinations (pairs, else triples) that are unique in the sampled
+ * rows although none of their columns is unique on its own
+ */
+function findCompositeKeyColumns(
+  worksheet: XLSX.WorkSheet,
+  sheetName: string,
+  range: XLSX.Range,
+  header: HeaderDetection,
+  rows: number[]
+): ColumnCandidate[] {
+  // Labelled columns filled on every sampled row with text or whole numbers, with repeats
+  const columns: { column: string; columnIndex: number; values: string[] }[] = [];
+  header.labels.forEach((label, i) => {
+    if (!label || columns.length >= MAX_COMPOSITE_KEY_COLUMNS) return;
+    const col = range.s.c + i;
+    const values: string[] = [];
+    for (const row of rows) {
+      const value = worksheet[XLSX.utils.encode_cell({ r: row, c: col })]?.v;
+      if (value === undefined || value === '' || (typeof value === 'number' && !Number.isInteger(value))) return;
+      values.push(String(value));
+    }
+    if (new Set(values).size < values.length) columns.push({ column: label, columnIndex: col, values });
+  });
+
+  const isUnique = (combination: number[]) =>
+    new Set(rows.map((_, r) => JSON.stringify(combination.map(i => columns[i].values[r])))).size === rows.length;
+
+  const combinations: number[][] = [];
+  for (let a = 0; a < columns.length; a++) {
+    for (let b = a + 1; b < columns.length; b++) {
+      if (isUnique([a, b])) combinations.push([a, b]);
+    }
+  }
+  if (combinations.length === 0) {
+    for (let a = 0; a < columns.length; a++) {
+      for (let b = a + 1; b < columns.length; b++) {
+        for (let c = b + 1; c < columns.length; c++) {
+          if (isUnique([a, b, c])) combinations.push([a, b, c]);
+        }
+      }
+    }
+  }
+
+  // Unique in the sample; key-like headers raise confidence. Ties keep left-to-right order
+  return combinations
+    .map(combination => {
+      const keyLike = combination.filter(i => scoreHeader(columns[i].column) > 0).length;
+      return {
+        sheet: sheetName,
+        column: combination.map(i => columns[i].column).join(' + '),
+        columnIndex: columns[combination[0]].columnIndex,
+        sampleValues: rows.slice(0, 5).map((_, r) => combination.map(i => columns[i].values[r]).join(' | ')),
+        columns: combination.map(i => ({ column: columns[i].column, columnIndex: columns[i].columnIndex })),
+        confidence: round(0.5 + 0.4 * keyLike / combination.length),
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_COMPOSITE_SUGGESTIONS);
+}
+
+/**
+ * Find potential key columns on every sheet, best first, plus composite keys
+ * unique in a sample of rows when no single column is a clear key
+ */
+export function findPotentialKeyColumns(workbook: XLSX.WorkBook, headers: Map<string, HeaderDetection>): ColumnCandidate[] {
+  const candidates: ColumnCandidate[] = [];
+
+  for (const sheetName of workbook.SheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+    const header = headers.get(sheetName)!;
+    const rows = sampleRows(worksheet, range, header);
+    const enoughRows = rows.length >= MIN_KEY_SAMPLE_ROWS;
+
+    const scored = header.labels
+      .map((label, i) => ({ label, col: range.s.c + i }))
+      .filter(({ label }) => label && (enoughRows || KEY_COLUMN_PATTERNS.test(label)))
+      .map(({ label, col }) => scoreColumn(worksheet, sheetName, label, col, rows))
+      .filter(({ candidate }) => candidate.confidence >= MIN_CONFIDENCE || KEY_COLUMN_PATTERNS.test(candidate.column))
+      .sort((a, b) => b.candidate.confidence - a.candidate.confidence)
+      .slice(0, MAX_COLUMN_SUGGESTIONS);
+
+    candidates.push(...scored.map(({ candidate }) => candidate));
+
+    const hasStrongKey = scored.some(({ candidate, uniqueness }) => uniqueness === 1 && candidate.confidence >= STRONG_CONFIDENCE);
+    if (enoughRows && !hasStrongKey) {
+      candidates.push(...findCompositeKeyColumns(worksheet, sheetName, range, header, rows));
+    }
+  }
+
+  return candidates;
+}
@@ -11,14 +11,31 @@ export const MAX_SHEETS = 20;
 export const MAX_ROWS_PER_SHEET = 10000;
 export const MAX_COLS_PER_SHEET = 200;
 
+// Most columns a composite key may combine
+export const MAX_KEY_COLUMNS = 5;
+
+// Key selections are kept in the session cookie, so their number and label length are capped
+// (Excel sheet names are at most 31 characters)
+export const MAX_KEY_SELECTIONS = 5;
+export const MAX_KEY_LABEL_LENGTH = 32;
+
+// Archive limits for ZIP-based formats (XLSX, XLSB, ODS), checked before parsing
+export const MAX_DECOMPRESSED_BYTES = 200 * 1024 * 1024;
+export const MAX_ARCHIVE_ENTRIES = 5000;
+
 // Temp file TTL: 30 minutes
 export const TTL_MS = 30 * 60 * 1000;
 
 // Allowed file extensions
-export const ALLOWED_EXTENSIONS = ['.xlsx', '.xls'];
+export const ALLOWED_EXTENSIONS = ['.xlsx', '.xls', '.xlsb', '.ods', '.csv', '.tsv', '.txt'];
 
 // Allowed MIME types
 export const ALLOWED_MIME_TYPES = [
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
   'application/vnd.ms-excel',
+  'application/vnd.ms-excel.sheet.binary.macroEnabled.12',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'text/csv',
+  'text/tab-separated-values',
+  'text/plain',
 ];
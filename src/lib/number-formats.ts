@@ -0,0 +1,110 @@
+/**
+ * Formatted Number Text
+ * Parses text such as "$1,234.50", "(1.200,00)", "1 234,5 €" or "45-" into
+ * a number, recording the notation used and which decimal convention
+ * (dot or comma) the separators imply
+ */
+
+// Decimal separator convention: "1,234.56" is dot, "1.234,56" is comma
+export type DecimalConvention = 'dot' | 'comma';
+
+export type NumberNotation =
+  | 'thousands separators'
+  | 'currency symbols'
+  | 'trailing minus'
+  | 'parentheses negatives'
+  | 'decimal commas'
+  | 'percent signs';
+
+export interface ParsedNumberText {
+  value: number;
+  notations: NumberNotation[];
+  // Undefined when the separators fit either convention ("1,234", "1.234")
+  convention?: DecimalConvention;
+}
+
+const CURRENCY = /^(?:[$€£¥₹]|USD|EUR|GBP|CHF|JPY|CAD|AUD)\s?|\s?(?:[$€£¥₹]|USD|EUR|GBP|CHF|JPY|CAD|AUD)$/i;
+// Digit groups of three separated by a group character, with an optional decimal part
+const GROUPED = {
+  comma: /^\d{1,3}(,\d{3})+(\.\d+)?$/,
+  dot: /^\d{1,3}(\.\d{3})+(,\d+)?$/,
+  space: /^\d{1,3}([ \u00a0\u202f']\d{3})+([.,]\d+)?$/,
+};
+
+/**
+ * Parse the unsigned digits-and-separators part of a number
+ */
+function parseBody(body: string): { value: number; grouped: boolean; convention?: DecimalConvention } | null {
+  if (/^\d+$/.test(body)) return { value: Number(body), grouped: false };
+  if (/^\d*\.\d+$/.test(body)) {
+    // "1.234" may be a grouped thousand in comma-decimal locales
+    return { value: Number(body), grouped: false, convention: /^\d{1,3}\.\d{3}$/.test(body) ? undefined : 'dot' };
+  }
+  if (/^\d*,\d+$/.test(body)) {
+    // "1,234" is a grouped thousand in dot-decimal locales, or 1.234
+    if (/^\d{1,3},\d{3}$/.test(body)) return { value: Number(body.replace(',', '')), grouped: true };
+    return { value: Number(body.replace(',', '.')), grouped: false, convention: 'comma' };
+  }
+  if (GROUPED.comma.test(body)) return { value: Number(body.replace(/,/g, '')), grouped: true, convention: 'dot' };
+  if (GROUPED.dot.test(body)) return { value: Number(body.replace(/\./g, '').replace(',', '.')), grouped: true, convention: 'comma' };
+  if (GROUPED.space.test(body)) {
+    const decimal = body.match(/[.,](\d+)$/);
+    const digits = body.replace(/[ \u00a0\u202f'.,]/g, '');
+    const value = decimal ? Number(`${digits.slice(0, -decimal[1].length)}.${decimal[1]}`) : Number(digits);
+    return { value, grouped: true, convention: decimal ? (body.includes(',') ? 'comma' : 'dot') : undefined };
+  }
+  return null;
+}
+
+/**
+ * Parse text formatted as a number; null when it is not one. Plain digit
+ * strings ("00123", "2024") are not parsed, as they are usually codes
+ */
+export function parseNumberText(text: string): ParsedNumberText | null {
+  let rest = text.trim();
+  if (!/\d/.test(rest) || rest.length > 40) return null;
+  const notations: NumberNotation[] = [];
+  let negative = false;
+
+  if (/^\(.*\)$/.test(rest)) {
+    negative = true;
+    notations.push('parentheses negatives');
+    rest = rest.slice(1, -1).trim();
+  }
+  if (/^[-+]/.test(rest)) {
+    negative = rest[0] === '-';
+    rest = rest.slice(1).trim();
+  }
+  if (CURRENCY.test(rest)) {
+    notations.push('currency symbols');
+    rest = rest.replace(CURRENCY, '').trim();
+    // "$-12" and "-$12" are both common
+    if (/^-/.test(rest)) {
+      negative = true;
+      rest = rest.slice(1).trim();
+    }
+  }
+  if (/%$/.test(rest)) {
+    notations.push('percent signs');
+    rest = rest.slice(0, -1).trim();
+  }
+  if (/\d-$/.test(rest)) {
+    negative = true;
+    notations.push('trailing minus');
+    rest = rest.slice(0, -1);
+  }
+
+  const body = parseBody(rest);
+  if (!body || Number.isNaN(body.value)) return null;
+  // A bare integer is only a formatted number if something else marks it
+  if (/^\d+$/.test(rest) && notations.length === 0) return null;
+
+  if (body.grouped) notations.push('thousands separators');
+  if (body.convention === 'comma' && /,\d+$/.test(rest)) notations.push('decimal commas');
+
+  return {
+    value: negative ? -body.value : body.value,
+    notations,
+    convention: body.convention,
+  };
+}
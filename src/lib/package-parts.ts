@@ -0,0 +1,94 @@
+/**
+ * XLSX Package Parts
+ * Helpers for reading raw package parts kept by SheetJS (bookFiles):
+ * XML tags and attributes, and relationships between parts
+ */
+
+import type * as XLSX from 'xlsx';
+
+interface PackageFile {
+  content?: Uint8Array;
+}
+
+export interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Opening tags (with attributes) for an element, ignoring namespace prefixes
+ */
+export function findTags(xml: string, tagName: string): string[] {
+  return xml.match(new RegExp(`<(?:\\w+:)?${tagName}\\b[^>]*>`, 'g')) || [];
+}
+
+export function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+export function readPart(workbook: XLSX.WorkBook, path: string): string | null {
+  const files = (workbook as XLSX.WorkBook & { files?: Record<string, PackageFile> }).files;
+  const content = files?.[path]?.content;
+  return content ? Buffer.from(content).toString('utf8') : null;
+}
+
+/**
+ * Resolve a relationship target against the part that owns it
+ */
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+export function readRelationships(workbook: XLSX.WorkBook, part: string): Map<string, Relationship> {
+  const slash = part.lastIndexOf('/');
+  const relsPath = `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+  const xml = readPart(workbook, relsPath);
+  const relationships = new Map<string, Relationship>();
+  if (!xml) return relationships;
+
+  for (const tag of findTags(xml, 'Relationship')) {
+    const id = getAttribute(tag, 'Id');
+    const target = getAttribute(tag, 'Target');
+    if (!id || target === undefined) continue;
+    const external = getAttribute(tag, 'TargetMode') === 'External';
+    relationships.set(id, {
+      type: getAttribute(tag, 'Type') || '',
+      target: external ? target : resolvePath(part, target),
+      external,
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Package path of each worksheet part, by sheet name
+ */
+export function readSheetParts(workbook: XLSX.WorkBook): Map<string, string> {
+  const parts = new Map<string, string>();
+  const workbookXml = readPart(workbook, 'xl/workbook.xml');
+  if (!workbookXml) return parts;
+
+  const workbookRels = readRelationships(workbook, 'xl/workbook.xml');
+  for (const sheetTag of findTags(workbookXml, 'sheet')) {
+    const path = workbookRels.get(getAttribute(sheetTag, 'r:id') || '')?.target;
+    if (path) parts.set(getAttribute(sheetTag, 'name') || '', path);
+  }
+  return parts;
+}
@@ -6,7 +6,7 @@
 // Use standalone PDFKit build which includes font data, avoiding file system dependencies
 // This is required for serverless environments like Vercel
 import PDFDocument from 'pdfkit/js/pdfkit.standalone.js';
-import type { AnalysisResult, Finding } from './types';
+import type { AnalysisResult, ColumnProfile, Finding } from './types';
 
 // Colors
 const COLORS = {
@@ -78,6 +78,11 @@ export function generatePDFReport(result: AnalysisResult): Promise<Buffer> {
       // Suggestions Section
       renderSuggestions(doc, result.findings);
 
+      // Data Dictionary
+      if (result.columnProfiles?.length) {
+        renderDataDictionary(doc, result.columnProfiles);
+      }
+
       // Note: We can't add footers after all content in PDFKit
       // because bufferedPageRange() requires doc.end() first
       // and we can't modify pages after end().
@@ -148,6 +153,12 @@ function renderTitlePage(doc: PDFKit.PDFDocument, result: AnalysisResult): void
   doc.text('Sheets:', boxX + 20, doc.y, { continued: true })
     .text(` ${result.sheets.length}`);
 
+  if (result.fileFormat) {
+    doc.moveDown(0.3);
+    doc.text('Format:', boxX + 20, doc.y, { continued: true })
+      .text(` ${result.fileFormat.toUpperCase()}`);
+  }
+
   doc.moveDown(4);
   doc.y = boxY + boxHeight + 40;
 
@@ -203,9 +214,13 @@ function renderSummary(doc: PDFKit.PDFDocument, result: AnalysisResult): void {
   result.sheets.forEach(sheet => {
     const hiddenTag = sheet.isHidden ? ' (hidden)' : '';
     const dataTag = sheet.hasData ? `${sheet.rowCount - 1} rows` : 'No data';
+    const sheetScore = result.scoreBreakdown?.bySheet.find(s => s.sheet === sheet.name);
+    const scoreTag = sheetScore ? `, score ${sheetScore.score}/100` : '';
+    const mergedTag = sheet.mergedRangeCount ? `, ${sheet.mergedRangeCount} merged range(s)` : '';
+    const tablesTag = sheet.tables.length ? `, ${sheet.tables.length} tables (${sheet.tables.join(', ')})` : '';
     doc.fontSize(10)
       .fillColor(COLORS.text)
-      .text(`• ${sheet.name}${hiddenTag}: ${sheet.columnCount} columns, ${dataTag}`, {
+      .text(`• ${sheet.name}${hiddenTag}: ${sheet.columnCount} columns, ${dataTag}${tablesTag}${mergedTag}${scoreTag}`, {
         indent: 15,
       });
   });
@@ -292,6 +307,7 @@ function renderFindings(doc: PDFKit.PDFDocument, findings: Finding[]): void {
     x += colWidths.sheet;
     let desc = finding.description;
     if (finding.column) desc = `[${finding.column}] ${desc}`;
+    if (finding.region) desc = `${finding.region}: ${desc}`;
     
     // Truncate very long descriptions
     if (desc.length > 150) {
@@ -362,6 +378,70 @@ function renderSuggestions(doc: PDFKit.PDFDocument, findings: Finding[]): void {
   });
 }
 
+/**
+ * One-line summary of a column profile
+ */
+function describeColumnProfile(profile: ColumnProfile): string {
+  const parts = [profile.inferredType, `${profile.nullCount} blank`, `${profile.distinctCount} distinct`];
+  if (profile.numeric && profile.inferredType !== 'date') {
+    const { min, max, mean, median } = profile.numeric;
+    parts.push(`range ${min} to ${max}, mean ${mean}, median ${median}`);
+  } else if (profile.dates) {
+    parts.push(`${profile.dates.min} to ${profile.dates.max}`);
+  } else if (profile.maxLength > 0) {
+    parts.push(`up to ${profile.maxLength} characters`);
+  }
+  const top = profile.topValues.filter(v => v.count > 1).slice(0, 3);
+  if (top.length > 0) parts.push(`most frequent: ${top.map(v => `${v.value} (${v.count})`).join(', ')}`);
+  return parts.join(', ');
+}
+
+/**
+ * Render the data dictionary: one line per column, grouped by sheet and table
+ */
+function renderDataDictionary(doc: PDFKit.PDFDocument, profiles: ColumnProfile[]): void {
+  doc.addPage();
+
+  doc.fontSize(18)
+    .fillColor(COLORS.text)
+    .text('Data Dictionary', { underline: true });
+
+  doc.moveDown(0.5);
+
+  // Group by sheet, then table
+  const groups = new Map<string, ColumnProfile[]>();
+  profiles.forEach(profile => {
+    const title = profile.region ? `${profile.sheet} (${profile.region})` : profile.sheet;
+    groups.set(title, [...(groups.get(title) || []), profile]);
+  });
+
+  groups.forEach((columns, title) => {
+    // Check page break
+    if (doc.y > doc.page.height - 120) {
+      doc.addPage();
+    }
+
+    doc.fontSize(12)
+      .fillColor(COLORS.text)
+      .text(title);
+
+    doc.moveDown(0.2);
+
+    columns.forEach(profile => {
+      if (doc.y > doc.page.height - 80) {
+        doc.addPage();
+      }
+      doc.fontSize(9)
+        .fillColor(COLORS.text)
+        .text(`• ${profile.column} [${profile.columnLetter}]: `, { indent: 10, continued: true })
+        .fillColor(COLORS.textLight)
+        .text(describeColumnProfile(profile), { lineGap: 1 });
+    });
+
+    doc.moveDown(0.5);
+  });
+}
+
 /**
  * Render footer on each page
  */
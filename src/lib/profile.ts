@@ -0,0 +1,211 @@
+/**
+ * Analysis Profiles
+ * Resolve per-request check toggles, thresholds, severity overrides, scoring,
+ * header row overrides, duplicate row columns and declared relationships
+ */
+
+import type {
+  AnalysisProfile,
+  AnalysisThresholds,
+  Finding,
+  ResolvedAnalysisProfile,
+  Severity,
+} from './types';
+import { CHECK_REGISTRY } from './checks';
+import { SCORING_PRESETS, resolveScoringModel } from './scoring';
+
+// Default thresholds (match the analyzer's historical behaviour)
+export const DEFAULT_THRESHOLDS: AnalysisThresholds = {
+  textDateRatio: 0.2,
+  mixedTypeNumericRatio: 0.5,
+  mixedTypeTextRatio: 0.2,
+  minColumnValues: 5,
+  maxDisplayRefs: 10,
+  formulaColumnRatio: 0.6,
+  outlierZScore: 3.5,
+  signFlipRatio: 0.05,
+};
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+// Thresholds expressed as a share of values (must be within 0..1)
+const RATIO_THRESHOLDS: (keyof AnalysisThresholds)[] = [
+  'textDateRatio',
+  'mixedTypeNumericRatio',
+  'mixedTypeTextRatio',
+  'formulaColumnRatio',
+  'signFlipRatio',
+];
+
+// Former category names still accepted in severity and weight overrides
+const CATEGORY_ALIASES: Record<string, string> = {
+  'Hidden Sheets': 'Hidden Content',
+};
+
+/**
+ * Rename keys using former category names; the current name wins if both are given
+ */
+function resolveCategoryAliases<T>(byCategory: Record<string, T> = {}): Record<string, T> {
+  const resolved: Record<string, T> = {};
+  for (const [category, value] of Object.entries(byCategory)) {
+    const current = CATEGORY_ALIASES[category];
+    if (!current) resolved[category] = value;
+    else if (!(current in byCategory)) resolved[current] = value;
+  }
+  return resolved;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate the scoring section of a profile
+ */
+function validateScoring(scoring: unknown): string | null {
+  if (!isPlainObject(scoring)) return 'profile.scoring must be an object';
+
+  if (scoring.preset !== undefined) {
+    if (typeof scoring.preset !== 'string' || !Object.prototype.hasOwnProperty.call(SCORING_PRESETS, scoring.preset)) {
+      return `profile.scoring.preset must be one of: ${Object.keys(SCORING_PRESETS).join(', ')}`;
+    }
+  }
+
+  for (const key of ['severityWeights', 'severityCaps'] as const) {
+    const weights = scoring[key];
+    if (weights === undefined) continue;
+    if (!isPlainObject(weights)) return `profile.scoring.${key} must be an object`;
+    for (const [severity, value] of Object.entries(weights)) {
+      if (!SEVERITIES.includes(severity as Severity)) return `Unknown severity in profile.scoring.${key}: ${severity}`;
+      if (!isNonNegativeNumber(value)) return `profile.scoring.${key}.${severity} must be a non-negative number`;
+    }
+  }
+
+  if (scoring.categoryWeights !== undefined) {
+    if (!isPlainObject(scoring.categoryWeights)) return 'profile.scoring.categoryWeights must be an object';
+    for (const [category, value] of Object.entries(scoring.categoryWeights)) {
+      if (!isNonNegativeNumber(value)) return `profile.scoring.categoryWeights["${category}"] must be a non-negative number`;
+    }
+  }
+
+  if (scoring.affectedRatioWeight !== undefined && !isNonNegativeNumber(scoring.affectedRatioWeight)) {
+    return 'profile.scoring.affectedRatioWeight must be a non-negative number';
+  }
+
+  return null;
+}
+
+/**
+ * Validate an untrusted profile (e.g. from a request body)
+ * Returns an error message, or null if the profile is valid
+ */
+export function validateProfile(input: unknown): string | null {
+  if (!isPlainObject(input)) {
+    return 'Profile must be an object';
+  }
+
+  if (input.checks !== undefined) {
+    if (!isPlainObject(input.checks)) return 'profile.checks must be an object';
+    for (const [id, enabled] of Object.entries(input.checks)) {
+      if (!CHECK_REGISTRY.some(check => check.id === id)) return `Unknown check: ${id}`;
+      if (typeof enabled !== 'boolean') return `profile.checks.${id} must be a boolean`;
+    }
+  }
+
+  if (input.thresholds !== undefined) {
+    if (!isPlainObject(input.thresholds)) return 'profile.thresholds must be an object';
+    for (const [key, value] of Object.entries(input.thresholds)) {
+      if (!Object.prototype.hasOwnProperty.call(DEFAULT_THRESHOLDS, key)) return `Unknown threshold: ${key}`;
+      if (!isNonNegativeNumber(value)) {
+        return `profile.thresholds.${key} must be a non-negative number`;
+      }
+      if (RATIO_THRESHOLDS.includes(key as keyof AnalysisThresholds) && value > 1) {
+        return `profile.thresholds.${key} must be between 0 and 1`;
+      }
+    }
+  }
+
+  if (input.severities !== undefined) {
+    if (!isPlainObject(input.severities)) return 'profile.severities must be an object';
+    for (const [category, severity] of Object.entries(input.severities)) {
+      if (!SEVERITIES.includes(severity as Severity)) {
+        return `profile.severities["${category}"] must be one of: ${SEVERITIES.join(', ')}`;
+      }
+    }
+  }
+
+  if (input.scoring !== undefined) {
+    const scoringError = validateScoring(input.scoring);
+    if (scoringError) return scoringError;
+  }
+
+  if (input.headerRows !== undefined) {
+    if (!isPlainObject(input.headerRows)) return 'profile.headerRows must be an object';
+    for (const [sheet, row] of Object.entries(input.headerRows)) {
+      if (typeof row !== 'number' || !Number.isInteger(row) || row < 1) {
+        return `profile.headerRows["${sheet}"] must be a positive row number`;
+      }
+    }
+  }
+
+  if (input.duplicateRowColumns !== undefined) {
+    if (!isPlainObject(input.duplicateRowColumns)) return 'profile.duplicateRowColumns must be an object';
+    for (const [sheet, columns] of Object.entries(input.duplicateRowColumns)) {
+      if (!Array.isArray(columns) || columns.length === 0 || !columns.every(c => typeof c === 'string' && c.trim())) {
+        return `profile.duplicateRowColumns["${sheet}"] must be a non-empty list of column names`;
+      }
+    }
+  }
+
+  if (input.relationships !== undefined) {
+    if (!Array.isArray(input.relationships)) return 'profile.relationships must be a list';
+    for (const [i, relationship] of input.relationships.entries()) {
+      const fields = ['sheet', 'column', 'parentSheet', 'parentColumn'];
+      if (!isPlainObject(relationship) || !fields.every(f => typeof relationship[f] === 'string' && (relationship[f] as string).trim())) {
+        return `profile.relationships[${i}] must have non-empty ${fields.join(', ')}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fill in defaults for every check and threshold
+ */
+export function resolveProfile(profile: AnalysisProfile = {}): ResolvedAnalysisProfile {
+  const checks: Record<string, boolean> = {};
+  for (const check of CHECK_REGISTRY) {
+    checks[check.id] = profile.checks?.[check.id] ?? true;
+  }
+
+  return {
+    checks,
+    thresholds: { ...DEFAULT_THRESHOLDS, ...profile.thresholds },
+    severities: resolveCategoryAliases(profile.severities),
+    scoring: resolveScoringModel(profile.scoring && {
+      ...profile.scoring,
+      categoryWeights: profile.scoring.categoryWeights && resolveCategoryAliases(profile.scoring.categoryWeights),
+    }),
+    headerRows: { ...profile.headerRows },
+    duplicateRowColumns: { ...profile.duplicateRowColumns },
+    relationships: (profile.relationships || []).map(relationship => ({ ...relationship })),
+  };
+}
+
+/**
+ * Remap finding severities according to the profile's category overrides
+ */
+export function applySeverityOverrides(
+  findings: Finding[],
+  profile: ResolvedAnalysisProfile
+): Finding[] {
+  return findings.map(finding => {
+    const severity = profile.severities[finding.category];
+    return severity ? { ...finding, severity } : finding;
+  });
+}
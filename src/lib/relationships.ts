@@ -0,0 +1,212 @@
+/**
+ * Cross-sheet Relationships
+ * Resolves foreign keys declared in the profile to columns, and infers
+ * others by matching column names against strong key columns on other
+ * sheets ("Orders"!CustomerID -> "Customers"!ID) and checking value overlap
+ */
+
+import * as XLSX from 'xlsx';
+import type { ColumnCandidate, KeyColumnSelection, RelationshipDeclaration } from './types';
+import type { HeaderDetection } from './header-detection';
+import type { TableRegion } from './table-regions';
+import { MAX_ROWS_PER_SHEET } from './limits';
+
+// Key candidates at least this confident are used as parents for inference
+const MIN_PARENT_CONFIDENCE = 0.8;
+// Share of a column's distinct values that must exist in the parent key to infer a relationship
+const MIN_INFERRED_OVERLAP = 0.5;
+// Key names too generic to match across sheets on their own ("Orders"!ID is not "Customers"!ID)
+const GENERIC_KEY_NAMES = ['id', 'key', 'code', 'no', 'nr', 'num', 'number', 'ref', ''];
+
+export interface Relationship {
+  sheet: string;
+  column: string;
+  columnIndex: number;
+  parentSheet: string;
+  parentColumn: string;
+  parentColumnIndex: number;
+  // Found by the analyzer rather than declared in the profile
+  inferred: boolean;
+}
+
+export interface RelationshipResolution {
+  relationships: Relationship[];
+  // Declarations naming a sheet or column that does not exist
+  unresolved: { declaration: RelationshipDeclaration; reason: string }[];
+}
+
+/**
+ * Non-blank values of a column's data rows, with their cells and 1-based rows.
+ * On a sheet with several tables only the table holding the header is read
+ */
+export function readColumnValues(
+  worksheet: XLSX.WorkSheet,
+  header: HeaderDetection,
+  col: number,
+  regions: TableRegion[] = []
+): { value: string; cell: XLSX.CellObject; row: number }[] {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const inColumn = regions.filter(r => r.range.s.c <= col && col <= r.range.e.c);
+  const region = inColumn.find(r => r.range.s.r <= header.firstRow && header.firstRow <= r.range.e.r)
+    || inColumn.find(r => r.range.e.r > header.lastRow);
+  const lastRow = Math.min(region ? region.range.e.r : range.e.r, range.s.r + MAX_ROWS_PER_SHEET - 1);
+  const values: { value: string; cell: XLSX.CellObject; row: number }[] = [];
+  for (let row = Math.max(header.lastRow + 1, region ? region.range.s.r : 0); row <= lastRow; row++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })] as XLSX.CellObject | undefined;
+    const value = cell && cell.v !== undefined && cell.v !== null ? String(cell.v).trim() : '';
+    if (cell && value) values.push({ value, cell, row: row + 1 });
+  }
+  return values;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Singular form of a sheet name for matching column names ("Customers" -> "customer")
+ */
+function singularize(name: string): string {
+  const normalized = normalizeName(name);
+  if (/ies$/.test(normalized)) return normalized.slice(0, -3) + 'y';
+  if (/(ss|sh|ch|x)es$/.test(normalized)) return normalized.slice(0, -2);
+  return normalized.replace(/s$/, '');
+}
+
+/**
+ * Resolve a column name (header label, else column letter) on a sheet
+ */
+function resolveColumn(worksheet: XLSX.WorkSheet, header: HeaderDetection, name: string): { column: string; columnIndex: number } | null {
+  const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+  const wanted = name.trim().toLowerCase();
+  const i = header.labels.findIndex(label => label.trim().toLowerCase() === wanted);
+  if (i >= 0) return { column: header.labels[i], columnIndex: range.s.c + i };
+  if (/^[A-Z]{1,3}$/i.test(name.trim())) {
+    const col = XLSX.utils.decode_col(name.trim().toUpperCase());
+    if (col >= range.s.c && col <= range.e.c) {
+      return { column: header.labels[col - range.s.c] || name.trim().toUpperCase(), columnIndex: col };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a column name refers to a parent key by name: the same specific
+ * name ("Email", "CustomerID"), or the parent sheet's name with or without
+ * the key name ("Customer", "customer_id" for "Customers"!ID)
+ */
+function matchesParentName(label: string, parent: KeyColumnSelection): boolean {
+  const name = normalizeName(label);
+  const parentName = normalizeName(parent.column);
+  const entity = singularize(parent.sheet);
+  if (!name) return false;
+  if (name === parentName && !GENERIC_KEY_NAMES.includes(parentName)) return true;
+  return !!entity && (name === entity || name === entity + parentName || name === entity + 'id');
+}
+
+/**
+ * Infer relationships from single-column keys: a similarly named column on
+ * another sheet whose values mostly exist in the key
+ */
+function inferRelationships(
+  workbook: XLSX.WorkBook,
+  headers: Map<string, HeaderDetection>,
+  regions: Map<string, TableRegion[]>,
+  sheetNames: string[],
+  parents: KeyColumnSelection[]
+): Relationship[] {
+  const relationships: Relationship[] = [];
+
+  for (const parent of parents) {
+    const parentHeader = headers.get(parent.sheet);
+    if (!parentHeader || !sheetNames.includes(parent.sheet)) continue;
+    const parentKeys = new Set(readColumnValues(workbook.Sheets[parent.sheet], parentHeader, parent.columnIndex, regions.get(parent.sheet)).map(v => v.value));
+    if (parentKeys.size === 0) continue;
+
+    for (const sheetName of sheetNames) {
+      if (sheetName === parent.sheet) continue;
+      const worksheet = workbook.Sheets[sheetName];
+      const header = headers.get(sheetName)!;
+      const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
+
+      header.labels.forEach((label, i) => {
+        if (!matchesParentName(label, parent)) return;
+        const columnIndex = range.s.c + i;
+        // Two unique columns with the same name (e.g. SKU on two sheets) relate one way only
+        if (relationships.some(r => r.sheet === parent.sheet && r.columnIndex === parent.columnIndex && r.parentSheet === sheetName)) return;
+
+        const distinct = new Set(readColumnValues(worksheet, header, columnIndex, regions.get(sheetName)).map(v => v.value));
+        const found = Array.from(distinct).filter(value => parentKeys.has(value)).length;
+        if (distinct.size === 0 || found / distinct.size < MIN_INFERRED_OVERLAP) return;
+
+        relationships.push({
+          sheet: sheetName,
+          column: label,
+          columnIndex,
+          parentSheet: parent.sheet,
+          parentColumn: parent.column,
+          parentColumnIndex: parent.columnIndex,
+          inferred: true,
+        });
+      });
+    }
+  }
+
+  return relationships;
+}
+
+/**
+ * Resolve declared relationships and add inferred ones for columns not
+ * already covered. Parents for inference are the selected keys and strong
+ * single-column key candidates
+ */
+export function resolveRelationships(
+  workbook: XLSX.WorkBook,
+  headers: Map<string, HeaderDetection>,
+  regions: Map<string, TableRegion[]>,
+  sheetNames: string[],
+  declarations: RelationshipDeclaration[],
+  selectedKeyColumns: KeyColumnSelection[],
+  keyCandidates: ColumnCandidate[]
+): RelationshipResolution {
+  const relationships: Relationship[] = [];
+  const unresolved: RelationshipResolution['unresolved'] = [];
+
+  for (const declaration of declarations) {
+    const locate = (sheet: string, column: string) =>
+      sheetNames.includes(sheet) ? resolveColumn(workbook.Sheets[sheet], headers.get(sheet)!, column) : null;
+    const child = locate(declaration.sheet, declaration.column);
+    const parent = locate(declaration.parentSheet, declaration.parentColumn);
+    if (!child || !parent) {
+      const [sheet, column] = child ? [declaration.parentSheet, declaration.parentColumn] : [declaration.sheet, declaration.column];
+      const reason = sheetNames.includes(sheet)
+        ? `column "${column}" not found on sheet "${sheet}"`
+        : `sheet "${sheet}" not found or not analyzed`;
+      unresolved.push({ declaration, reason });
+      continue;
+    }
+    relationships.push({
+      sheet: declaration.sheet,
+      column: child.column,
+      columnIndex: child.columnIndex,
+      parentSheet: declaration.parentSheet,
+      parentColumn: parent.column,
+      parentColumnIndex: parent.columnIndex,
+      inferred: false,
+    });
+  }
+
+  const parents: KeyColumnSelection[] = [
+    ...selectedKeyColumns.filter(key => !key.columns || key.columns.length <= 1),
+    ...keyCandidates.filter(candidate => !candidate.columns && candidate.confidence >= MIN_PARENT_CONFIDENCE),
+  ].filter((key, i, all) => all.findIndex(k => k.sheet === key.sheet && k.columnIndex === key.columnIndex) === i);
+
+  for (const inferred of inferRelationships(workbook, headers, regions, sheetNames, parents)) {
+    // A declaration for the same column wins over inference
+    if (!relationships.some(r => r.sheet === inferred.sheet && r.columnIndex === inferred.columnIndex)) {
+      relationships.push(inferred);
+    }
+  }
+
+  return { relationships, unresolved };
+}
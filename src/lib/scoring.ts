@@ -0,0 +1,216 @@
+/**
+ * Scoring Models
+ * Turn findings into a 0-100 score, weighted by severity, category and
+ * the share of each sheet a finding affects
+ */
+
+import type {
+  Finding,
+  SheetInfo,
+  Severity,
+  ScoringModel,
+  ScoringOptions,
+  ScoreBreakdown,
+  SheetScore,
+  CategoryScore,
+} from './types';
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+// Named scoring presets
+export const SCORING_PRESETS: Record<string, ScoringModel> = {
+  // Flat 10/3 penalties, ignoring category and affected cells
+  classic: {
+    name: 'classic',
+    severityWeights: { error: 10, warning: 3, info: 0 },
+    severityCaps: { error: 70, warning: 30, info: 0 },
+    categoryWeights: {},
+    affectedRatioWeight: 0,
+  },
+  // Classic penalties weighted by category and share of the sheet affected (the default)
+  balanced: {
+    name: 'balanced',
+    severityWeights: { error: 10, warning: 3, info: 0 },
+    severityCaps: { error: 70, warning: 30, info: 0 },
+    categoryWeights: {
+      'Formula Errors': 1.2,
+      'Duplicate Keys': 1.2,
+      'Header Quality': 0.8,
+      'Processing Limits': 0.5,
+    },
+    affectedRatioWeight: 3,
+  },
+  strict: {
+    name: 'strict',
+    severityWeights: { error: 15, warning: 5, info: 1 },
+    severityCaps: { error: 80, warning: 40, info: 10 },
+    categoryWeights: {
+      'Formula Errors': 1.5,
+      'Duplicate Keys': 1.5,
+    },
+    affectedRatioWeight: 4,
+  },
+  lenient: {
+    name: 'lenient',
+    severityWeights: { error: 7, warning: 2, info: 0 },
+    severityCaps: { error: 60, warning: 20, info: 0 },
+    categoryWeights: {
+      'Header Quality': 0.5,
+      'Processing Limits': 0.25,
+    },
+    affectedRatioWeight: 2,
+  },
+};
+
+export const DEFAULT_SCORING_PRESET = 'balanced';
+
+/**
+ * Build a scoring model from a preset name plus overrides
+ */
+export function resolveScoringModel(options: ScoringOptions = {}): ScoringModel {
+  const preset = SCORING_PRESETS[options.preset || DEFAULT_SCORING_PRESET];
+  const hasOverrides = Boolean(
+    options.severityWeights ||
+    options.severityCaps ||
+    options.categoryWeights ||
+    options.affectedRatioWeight !== undefined
+  );
+
+  return {
+    name: hasOverrides ? `${preset.name} (custom)` : preset.name,
+    severityWeights: { ...preset.severityWeights, ...options.severityWeights },
+    severityCaps: { ...preset.severityCaps, ...options.severityCaps },
+    categoryWeights: { ...preset.categoryWeights, ...options.categoryWeights },
+    affectedRatioWeight: options.affectedRatioWeight ?? preset.affectedRatioWeight,
+  };
+}
+
+/**
+ * Share of a sheet (0..1) covered by a finding
+ * Column findings are measured against the column's data rows,
+ * other findings against every data cell of the sheet (or of the finding's table)
+ */
+function getAffectedRatio(finding: Finding, sheetsByName: Map<string, SheetInfo>): number {
+  if (!finding.affectedCells) return 0;
+
+  const sheet = sheetsByName.get(finding.sheet);
+  if (!sheet) return 0;
+
+  const size = (finding.region && sheet.tableSizes[finding.region]) || { dataRows: sheet.dataRowCount, columns: sheet.columnCount };
+  const dataRows = Math.max(1, size.dataRows);
+  const denominator = finding.column ? dataRows : dataRows * Math.max(1, size.columns);
+  return Math.min(1, finding.affectedCells / denominator);
+}
+
+/**
+ * Penalty for a single finding before severity caps are applied
+ */
+function getFindingPenalty(
+  finding: Finding,
+  model: ScoringModel,
+  sheetsByName: Map<string, SheetInfo>
+): number {
+  const base = model.severityWeights[finding.severity];
+  const categoryWeight = model.categoryWeights[finding.category] ?? 1;
+  const ratio = getAffectedRatio(finding, sheetsByName);
+  return base * categoryWeight * (1 + model.affectedRatioWeight * ratio);
+}
+
+/**
+ * Sum penalties per severity and apply the model's caps
+ */
+function applyCaps(
+  penalties: { severity: Severity; penalty: number }[],
+  model: ScoringModel
+): Record<Severity, { raw: number; capped: number }> {
+  const totals = {} as Record<Severity, { raw: number; capped: number }>;
+  for (const severity of SEVERITIES) {
+    const raw = penalties
+      .filter(p => p.severity === severity)
+      .reduce((sum, p) => sum + p.penalty, 0);
+    totals[severity] = { raw, capped: Math.min(raw, model.severityCaps[severity]) };
+  }
+  return totals;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Calculate score based on findings
+ */
+export function calculateScore(
+  findings: Finding[],
+  sheets: SheetInfo[],
+  model: ScoringModel
+): { score: number; explanation: string; breakdown: ScoreBreakdown } {
+  const sheetsByName = new Map(sheets.map(sheet => [sheet.name, sheet]));
+  const penalties = findings.map(finding => ({
+    finding,
+    severity: finding.severity,
+    penalty: getFindingPenalty(finding, model, sheetsByName),
+  }));
+
+  const totals = applyCaps(penalties, model);
+  const totalPenalty = SEVERITIES.reduce((sum, s) => sum + totals[s].capped, 0);
+  const score = Math.max(0, Math.round(100 - totalPenalty));
+
+  // Per-sheet scores (findings that span several sheets count toward none)
+  const bySheet: SheetScore[] = sheets.map(sheet => {
+    const sheetPenalties = penalties.filter(p => p.finding.sheet === sheet.name);
+    const sheetTotals = applyCaps(sheetPenalties, model);
+    const penalty = SEVERITIES.reduce((sum, s) => sum + sheetTotals[s].capped, 0);
+    return {
+      sheet: sheet.name,
+      score: Math.max(0, Math.round(100 - penalty)),
+      penalty: round(penalty),
+      findingCount: sheetPenalties.length,
+    };
+  });
+
+  // Per-category penalties (before caps)
+  const categoryMap = new Map<string, CategoryScore>();
+  for (const { finding, penalty } of penalties) {
+    const entry = categoryMap.get(finding.category) || {
+      category: finding.category,
+      penalty: 0,
+      findingCount: 0,
+      affectedCells: 0,
+    };
+    entry.penalty += penalty;
+    entry.findingCount += 1;
+    entry.affectedCells += finding.affectedCells || 0;
+    categoryMap.set(finding.category, entry);
+  }
+  const byCategory = Array.from(categoryMap.values())
+    .map(entry => ({ ...entry, penalty: round(entry.penalty) }))
+    .sort((a, b) => b.penalty - a.penalty);
+
+  const errors = findings.filter(f => f.severity === 'error').length;
+  const warnings = findings.filter(f => f.severity === 'warning').length;
+  const infos = findings.filter(f => f.severity === 'info').length;
+
+  let explanation = `Starting score: 100 (scoring model: ${model.name}). `;
+  if (errors > 0) {
+    explanation += `${errors} error(s) = -${round(totals.error.capped)} (capped at ${model.severityCaps.error}). `;
+  }
+  if (warnings > 0) {
+    explanation += `${warnings} warning(s) = -${round(totals.warning.capped)} (capped at ${model.severityCaps.warning}). `;
+  }
+  if (infos > 0 && totals.info.capped > 0) {
+    explanation += `${infos} info finding(s) = -${round(totals.info.capped)} (capped at ${model.severityCaps.info}). `;
+  }
+  if (errors === 0 && warnings === 0) {
+    explanation += 'No issues found! ';
+  } else if (model.affectedRatioWeight > 0) {
+    explanation += 'Penalties are weighted by category and by the share of each sheet affected. ';
+  }
+  explanation += `Final score: ${score}/100.`;
+
+  return {
+    score,
+    explanation,
+    breakdown: { model: model.name, bySheet, byCategory },
+  };
+}
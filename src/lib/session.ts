@@ -105,7 +105,7 @@ export async function markSessionAsPaid(currentSession: SessionPayload): Promise
     fileId: currentSession.fileId,
     fileName: currentSession.fileName,
     paid: true,
-    selectedKeyColumn: currentSession.selectedKeyColumn,
+    selectedKeyColumns: currentSession.selectedKeyColumns,
   });
 
   await setSessionCookie(newToken);
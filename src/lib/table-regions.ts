@@ -0,0 +1,213 @@
+/**
+ * Table Region Detection
+ * Finds the separate tables on a sheet: Excel Tables (ListObjects) declared
+ * in the XLSX package, and blocks of cells separated by blank rows or columns
+ */
+
+import * as XLSX from 'xlsx';
+import { detectHeader, type HeaderDetection } from './header-detection';
+import { findTags, getAttribute, readPart, readRelationships, readSheetParts } from './package-parts';
+
+// Stop splitting a sheet after this many regions
+const MAX_REGIONS = 50;
+
+export interface TableRegion {
+  range: XLSX.Range;
+  // Address shown in findings: "Sales (A1:D20)" for Excel Tables, "A1:D20" otherwise
+  label: string;
+  // Excel Table name and column names
+  name?: string;
+  columns?: string[];
+  // Header rows declared by an Excel Table (0 when the table has no header row)
+  headerRowCount?: number;
+}
+
+/**
+ * Excel Tables (ListObjects) by sheet name; empty for non-XLSX files
+ */
+export function readExcelTables(workbook: XLSX.WorkBook): Map<string, TableRegion[]> {
+  const tables = new Map<string, TableRegion[]>();
+
+  for (const [sheetName, sheetPath] of readSheetParts(workbook)) {
+    for (const relationship of readRelationships(workbook, sheetPath).values()) {
+      if (!relationship.type.endsWith('/table')) continue;
+      const xml = readPart(workbook, relationship.target);
+      const tag = xml ? findTags(xml, 'table')[0] : undefined;
+      const ref = tag && getAttribute(tag, 'ref');
+      if (!xml || !tag || !ref) continue;
+
+      const name = getAttribute(tag, 'displayName') || getAttribute(tag, 'name') || relationship.target;
+      const list = tables.get(sheetName) || [];
+      list.push({
+        range: XLSX.utils.decode_range(ref),
+        label: `${name} (${ref})`,
+        name,
+        columns: findTags(xml, 'tableColumn').map(t => getAttribute(t, 'name') || ''),
+        headerRowCount: Number(getAttribute(tag, 'headerRowCount') ?? 1),
+      });
+      tables.set(sheetName, list);
+    }
+  }
+
+  return tables;
+}
+
+function overlaps(a: XLSX.Range, b: XLSX.Range): boolean {
+  return a.s.r <= b.e.r && b.s.r <= a.e.r && a.s.c <= b.e.c && b.s.c <= a.e.c;
+}
+
+/**
+ * Whether a row reads like a header: at least two cells (or the only cell of
+ * a one-column block), all of them non-numeric text
+ */
+function isTextRow(worksheet: XLSX.WorkSheet, row: number, range: XLSX.Range): boolean {
+  let filled = 0;
+  for (let col = range.s.c; col <= range.e.c; col++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+    if (!cell || cell.v === undefined || cell.v === '') continue;
+    if (cell.t !== 's' || /^[-+]?[\d.,]+%?$/.test(String(cell.v).trim())) return false;
+    filled++;
+  }
+  return filled >= Math.min(2, range.e.c - range.s.c + 1);
+}
+
+/**
+ * Runs of filled indexes, offset to sheet coordinates
+ */
+function toRuns(filled: boolean[], offset: number): [number, number][] {
+  const runs: [number, number][] = [];
+  filled.forEach((isFilled, i) => {
+    if (!isFilled) return;
+    const last = runs[runs.length - 1];
+    if (last && last[1] === offset + i - 1) last[1] = offset + i;
+    else runs.push([offset + i, offset + i]);
+  });
+  return runs;
+}
+
+/**
+ * Blocks of filled cells separated by blank rows or columns (recursive XY-cut);
+ * cells inside excluded ranges count as blank
+ */
+function findBlocks(worksheet: XLSX.WorkSheet, range: XLSX.Range, excluded: XLSX.Range[]): XLSX.Range[] {
+  const blocks: XLSX.Range[] = [];
+
+  const isFilled = (row: number, col: number) => {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: row, c: col })];
+    if (!cell || cell.v === undefined || cell.v === null || cell.v === '') return false;
+    return !excluded.some(t => t.s.r <= row && row <= t.e.r && t.s.c <= col && col <= t.e.c);
+  };
+
+  // Filled rows and columns of a range (indexes relative to the range start)
+  const occupancy = (area: XLSX.Range) => {
+    const rows: boolean[] = new Array(area.e.r - area.s.r + 1).fill(false);
+    const cols: boolean[] = new Array(area.e.c - area.s.c + 1).fill(false);
+    for (let row = area.s.r; row <= area.e.r; row++) {
+      for (let col = area.s.c; col <= area.e.c; col++) {
+        if (isFilled(row, col)) {
+          rows[row - area.s.r] = true;
+          cols[col - area.s.c] = true;
+        }
+      }
+    }
+    return { rows, cols };
+  };
+
+  // Bounding box of the filled cells (null when blank)
+  const trim = (area: XLSX.Range): XLSX.Range | null => {
+    const { rows, cols } = occupancy(area);
+    const firstRow = rows.indexOf(true);
+    const firstCol = cols.indexOf(true);
+    if (firstRow < 0 || firstCol < 0) return null;
+    return {
+      s: { r: area.s.r + firstRow, c: area.s.c + firstCol },
+      e: { r: area.s.r + rows.lastIndexOf(true), c: area.s.c + cols.lastIndexOf(true) },
+    };
+  };
+
+  // Split on blank rows. A band continues past a blank row unless the block
+  // below starts a new table: no columns in common, or a header-like row under data
+  const splitRows = (area: XLSX.Range) => {
+    if (blocks.length >= MAX_REGIONS) return;
+    const trimmed = trim(area);
+    if (!trimmed) return;
+
+    const bands: XLSX.Range[] = [];
+    for (const [startRow, endRow] of toRuns(occupancy(trimmed).rows, trimmed.s.r)) {
+      const band = trim({ s: { r: startRow, c: trimmed.s.c }, e: { r: endRow, c: trimmed.e.c } });
+      if (!band) continue;
+      const previous = bands[bands.length - 1];
+      const newTable = !previous
+        || band.s.c > previous.e.c
+        || band.e.c < previous.s.c
+        || (isTextRow(worksheet, band.s.r, band) && !isTextRow(worksheet, previous.e.r, previous));
+      if (newTable) {
+        bands.push(band);
+      } else {
+        // Rows below a blank row may leave optional columns empty
+        previous.s.c = Math.min(previous.s.c, band.s.c);
+        previous.e.c = Math.max(previous.e.c, band.e.c);
+        previous.e.r = band.e.r;
+      }
+    }
+
+    bands.forEach(splitColumns);
+  };
+
+  // Split on blank columns; each block is split on rows again
+  const splitColumns = (band: XLSX.Range) => {
+    const runs = toRuns(occupancy(band).cols, band.s.c);
+    if (runs.length === 1) {
+      if (blocks.length < MAX_REGIONS) blocks.push(band);
+      return;
+    }
+    for (const [startCol, endCol] of runs) {
+      splitRows({ s: { r: band.s.r, c: startCol }, e: { r: band.e.r, c: endCol } });
+    }
+  };
+
+  splitRows(range);
+  return blocks;
+}
+
+/**
+ * Table regions of a sheet within the processed range: its Excel Tables,
+ * then blocks of at least two rows separated by blank rows/columns.
+ * Returns an empty list when the sheet holds a single table (the whole sheet).
+ */
+export function detectTableRegions(
+  worksheet: XLSX.WorkSheet,
+  range: XLSX.Range,
+  excelTables: TableRegion[] = []
+): TableRegion[] {
+  const tables = excelTables.filter(t => overlaps(t.range, range));
+  // Single rows left over are titles, notes or totals rather than tables
+  const blocks = findBlocks(worksheet, range, tables.map(t => t.range)).filter(r => r.e.r > r.s.r);
+  if (tables.length === 0 && blocks.length <= 1) return [];
+
+  const regions: TableRegion[] = [
+    ...tables,
+    ...blocks.map(r => ({ range: r, label: XLSX.utils.encode_range(r) })),
+  ];
+  return regions.sort((a, b) => a.range.s.r - b.range.s.r || a.range.s.c - b.range.s.c);
+}
+
+/**
+ * Header of a table region: declared by an Excel Table, else detected
+ * (overrideRow, zero-based, applies when it falls inside the region)
+ */
+export function getRegionHeader(worksheet: XLSX.WorkSheet, region: TableRegion, overrideRow?: number): HeaderDetection {
+  if (region.columns && region.headerRowCount !== undefined) {
+    // Data starts right after the declared header rows (none for tables without a header row)
+    return {
+      firstRow: region.range.s.r,
+      lastRow: region.range.s.r + region.headerRowCount - 1,
+      labels: region.columns,
+      source: 'table',
+    };
+  }
+  const override = overrideRow !== undefined && overrideRow >= region.range.s.r && overrideRow <= region.range.e.r
+    ? overrideRow
+    : undefined;
+  return detectHeader(worksheet, region.range, override);
+}
@@ -4,6 +4,8 @@
 
 export type Severity = 'error' | 'warning' | 'info';
 
+export type SpreadsheetFormat = 'xlsx' | 'xls' | 'xlsb' | 'ods' | 'csv';
+
 export interface Finding {
   id: string;
   severity: Severity;
@@ -12,6 +14,13 @@ export interface Finding {
   column?: string;
   cellRef?: string;
   rowNumbers?: number[];
+  // Number of cells (or rows, for column findings) the finding covers; used for scoring
+  affectedCells?: number;
+  // Cells affected as a consequence of this finding (e.g. downstream formula errors); not scored
+  dependentRefs?: string;
+  dependentCells?: number;
+  // Table the finding applies to when its sheet holds several tables ("A1:D20", "Sales (A1:D20)")
+  region?: string;
   description: string;
   suggestion: string;
 }
@@ -22,14 +31,71 @@ export interface SheetInfo {
   rowCount: number;
   columnCount: number;
   headers: string[];
+  // 1-based row of the (last) header row, and how many rows the header spans
+  headerRow: number;
+  headerRowCount: number;
+  // Rows below the header row(s)
+  dataRowCount: number;
   hasData: boolean;
+  mergedRangeCount: number;
+  // Tables found on the sheet (empty when the whole sheet is one table)
+  tables: string[];
+  // Data rows (below each table's own header) and columns, by table label
+  tableSizes: Record<string, { dataRows: number; columns: number }>;
+}
+
+export type ColumnType = 'number' | 'date' | 'text' | 'boolean' | 'mixed' | 'empty';
+
+/**
+ * Summary statistics of one column's data rows (data dictionary entry)
+ */
+export interface ColumnProfile {
+  sheet: string;
+  // Table the column belongs to when the sheet holds several
+  region?: string;
+  // Header label, or the column letter when the column has none
+  column: string;
+  columnLetter: string;
+  // Dominant kind of value; 'mixed' when no kind covers most values
+  inferredType: ColumnType;
+  typeCounts: Record<'number' | 'date' | 'text' | 'boolean' | 'error', number>;
+  // Blank data rows, and distinct non-blank values
+  nullCount: number;
+  distinctCount: number;
+  numeric?: { min: number; max: number; mean: number; median: number };
+  // ISO dates (with time when any value has one)
+  dates?: { min: string; max: string };
+  // Most frequent values, most frequent first
+  topValues: { value: string; count: number }[];
+  maxLength: number;
+}
+
+export interface KeyColumn {
+  column: string;
+  columnIndex: number;
 }
 
 export interface ColumnCandidate {
   sheet: string;
+  // Header of the key column; "a + b" for composite keys
   column: string;
   columnIndex: number;
   sampleValues: string[];
+  // Every column of a composite key, in key order
+  columns?: KeyColumn[];
+  // 0-1, from uniqueness, blanks and value shape in a sample of rows plus the header name
+  confidence: number;
+}
+
+/**
+ * Key column chosen for a sheet's duplicate key check
+ */
+export interface KeyColumnSelection {
+  sheet: string;
+  column: string;
+  columnIndex: number;
+  // Every column of a composite key, in key order (column/columnIndex describe the first)
+  columns?: KeyColumn[];
 }
 
 export interface AnalysisPreview {
@@ -41,28 +107,139 @@ export interface AnalysisPreview {
   checksToRun: string[];
 }
 
+/**
+ * Tunable thresholds used by the analyzer checks
+ */
+export interface AnalysisThresholds {
+  // Share of text-date values in a column before it is flagged
+  textDateRatio: number;
+  // Share of numeric values for a column to count as predominantly numeric
+  mixedTypeNumericRatio: number;
+  // Share of text values in a predominantly numeric column before it is flagged
+  mixedTypeTextRatio: number;
+  // Columns with fewer non-empty values are skipped by column checks
+  minColumnValues: number;
+  // Maximum number of cell refs listed in a finding
+  maxDisplayRefs: number;
+  // Share of a column's cells using one formula pattern for it to count as calculated
+  formulaColumnRatio: number;
+  // Robust (median/MAD) z-score beyond which a numeric value is an outlier
+  outlierZScore: number;
+  // Largest share of negative values in a column still treated as sign flips
+  signFlipRatio: number;
+}
+
+/**
+ * Scoring model used to turn findings into a 0-100 score
+ */
+export interface ScoringModel {
+  name: string;
+  // Base penalty per finding of each severity
+  severityWeights: Record<Severity, number>;
+  // Maximum total penalty per severity
+  severityCaps: Record<Severity, number>;
+  // Finding category -> penalty multiplier (default 1)
+  categoryWeights: Record<string, number>;
+  // Extra multiplier applied per unit of affected-cell ratio (0 disables)
+  affectedRatioWeight: number;
+}
+
+/**
+ * Scoring configuration in a profile: a named preset plus optional overrides
+ */
+export interface ScoringOptions {
+  preset?: string;
+  severityWeights?: Partial<Record<Severity, number>>;
+  severityCaps?: Partial<Record<Severity, number>>;
+  categoryWeights?: Record<string, number>;
+  affectedRatioWeight?: number;
+}
+
+/**
+ * Foreign key between sheets: every value in sheet/column should exist in
+ * parentSheet/parentColumn (columns by header label or letter)
+ */
+export interface RelationshipDeclaration {
+  sheet: string;
+  column: string;
+  parentSheet: string;
+  parentColumn: string;
+}
+
+/**
+ * Per-request analysis configuration (all fields optional)
+ */
+export interface AnalysisProfile {
+  // Check id -> enabled
+  checks?: Record<string, boolean>;
+  thresholds?: Partial<AnalysisThresholds>;
+  // Finding category -> severity to report it with
+  severities?: Record<string, Severity>;
+  scoring?: ScoringOptions;
+  // Sheet name -> 1-based header row, overriding header detection
+  headerRows?: Record<string, number>;
+  // Sheet name -> columns (header labels or letters) to find rows duplicated on
+  duplicateRowColumns?: Record<string, string[]>;
+  // Cross-sheet foreign keys to check, in addition to those inferred from key columns
+  relationships?: RelationshipDeclaration[];
+}
+
+/**
+ * Analysis profile with every default filled in, as echoed in results
+ */
+export interface ResolvedAnalysisProfile {
+  checks: Record<string, boolean>;
+  thresholds: AnalysisThresholds;
+  severities: Record<string, Severity>;
+  scoring: ScoringModel;
+  headerRows: Record<string, number>;
+  duplicateRowColumns: Record<string, string[]>;
+  relationships: RelationshipDeclaration[];
+}
+
+export interface SheetScore {
+  sheet: string;
+  score: number;
+  penalty: number;
+  findingCount: number;
+}
+
+export interface CategoryScore {
+  category: string;
+  penalty: number;
+  findingCount: number;
+  affectedCells: number;
+}
+
+export interface ScoreBreakdown {
+  model: string;
+  bySheet: SheetScore[];
+  byCategory: CategoryScore[];
+}
+
 export interface AnalysisResult {
   fileId: string;
   fileName: string;
+  fileFormat: SpreadsheetFormat;
   analyzedAt: string;
   score: number;
   scoreExplanation: string;
+  scoreBreakdown: ScoreBreakdown;
   errorCount: number;
   warningCount: number;
   infoCount: number;
   findings: Finding[];
   sheets: SheetInfo[];
+  columnProfiles: ColumnProfile[];
+  profile: ResolvedAnalysisProfile;
 }
 
 export interface SessionPayload {
   fileId: string;
   fileName: string;
   paid: boolean;
-  selectedKeyColumn?: {
-    sheet: string;
-    column: string;
-    columnIndex: number;
-  };
+  // At most one key selection per sheet
+  selectedKeyColumns?: KeyColumnSelection[];
   createdAt: number;
   expiresAt: number;
 }